@@ -0,0 +1,524 @@
+import { createStruct, structFields } from "./fields"
+import type {
+  BoolType,
+  EnumType,
+  IntegerType,
+  NativeEnumType,
+  Schema,
+  StringType,
+  StructType,
+  TupleType,
+} from "./types"
+
+/**
+ * Name of a type in a schema container, e.g. `u8`, `Vec<String>` or `Player`.
+ */
+export type Declaration = string
+
+/**
+ * How a declared type is laid out on the wire, in the JSON form of borsh-rs's
+ * `borsh::schema::Definition`.
+ */
+export type Definition =
+  | { Primitive: number }
+  | {
+      Sequence: {
+        // Bytes of the length prefix, 0 for fixed-size arrays
+        length_width: number
+        length_range: { start: number; end: number }
+        elements: Declaration
+      }
+    }
+  | { Tuple: { elements: Declaration[] } }
+  | { Enum: { tag_width: number; variants: [number, string, Declaration][] } }
+  | { Struct: { fields: Fields } }
+
+export type Fields =
+  | { NamedFields: [string, Declaration][] }
+  | { UnnamedFields: Declaration[] }
+  | "Empty"
+
+/**
+ * A type and every definition it refers to, as found in the `borsh_schema` of
+ * arguments and results in a NEAR ABI.
+ */
+export interface BorshSchemaContainer {
+  declaration: Declaration
+  definitions: Record<Declaration, Definition>
+}
+
+/**
+ * The parts of a NEAR ABI file that carry Borsh schemas.
+ */
+export interface NearAbi {
+  body: {
+    functions: {
+      name: string
+      params?: {
+        serialization_type: string
+        args: { name: string; type_schema: unknown }[]
+      }
+      result?: { serialization_type: string; type_schema: unknown }
+    }[]
+  }
+}
+
+const U32_MAX = 2 ** 32 - 1
+
+// Same default as BorshSchema.Lazy
+const MAX_DEPTH = 256
+
+// Byte size of the primitives, by their Rust names
+const PRIMITIVE_SIZES: Record<string, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  u128: 16,
+  i8: 1,
+  i16: 2,
+  i32: 4,
+  i64: 8,
+  i128: 16,
+  f32: 4,
+  f64: 8,
+  bool: 1,
+  "()": 0,
+}
+
+/**
+ * Turn a field or variant name into a type name fragment, e.g.
+ * `inventory_items` into `InventoryItems`.
+ */
+export function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")
+}
+
+/**
+ * Names for structs and enums, which are anonymous in borsher. A node keeps
+ * the first name it is given, so a schema reused in several places (or a
+ * recursive one) gets a single definition.
+ */
+export class DefinitionNames {
+  private readonly byNode = new Map<Schema, string>()
+  private readonly taken = new Set<string>()
+
+  get(node: Schema): string | undefined {
+    return this.byNode.get(node)
+  }
+
+  /**
+   * Name a node, appending a counter when the name is already in use.
+   */
+  add(node: Schema, name: string): string {
+    let unique = name
+    for (let i = 2; this.taken.has(unique); i++) unique = `${name}${i}`
+    this.byNode.set(node, unique)
+    this.taken.add(unique)
+    return unique
+  }
+}
+
+/**
+ * Remove the wrappers that don't change the wire format.
+ */
+export function unwrapSchema(schema: Schema): Schema {
+  let current = schema
+  while (typeof current === "object") {
+    if ("refine" in current) current = current.refine.type
+    else if ("transform" in current) current = current.transform.type
+    else if ("pipe" in current) current = current.pipe.type
+    else if ("lazy" in current) current = current.lazy.resolve()
+    else break
+  }
+  return current
+}
+
+/**
+ * AbiBuilder converts a schema into a borsh-rs schema container.
+ *
+ * Structs and enums are named after where they appear, e.g. the element of a
+ * `players` field in `Game` becomes `GamePlayers`, and enum variants are named
+ * `EnumVariant` like borsh-rs does.
+ */
+export class AbiBuilder {
+  private readonly definitions: Record<Declaration, Definition> = {}
+  private readonly names = new DefinitionNames()
+
+  build(schema: Schema, name: string): BorshSchemaContainer {
+    const declaration = this.declare(schema, name)
+    const definitions = Object.fromEntries(
+      Object.keys(this.definitions)
+        .sort()
+        .map((key) => [key, this.definitions[key]]),
+    )
+    return { declaration, definitions }
+  }
+
+  /**
+   * Add the definitions a schema needs and return its declaration.
+   */
+  private declare(schema: Schema, name: string): Declaration {
+    const node = unwrapSchema(schema)
+
+    if (typeof node === "string") {
+      if (node === "string") return this.declareString()
+      return this.define(node, { Primitive: PRIMITIVE_SIZES[node] })
+    }
+    if ("option" in node) return this.declareOption(node.option, name)
+    if ("array" in node) {
+      const { type, len } = node.array
+      const elements = this.declare(type, name)
+      return len === undefined
+        ? this.defineSequence(`Vec<${elements}>`, elements)
+        : this.define(`[${elements}; ${len}]`, {
+            Sequence: { length_width: 0, length_range: { start: len, end: len }, elements },
+          })
+    }
+    if ("set" in node) {
+      const elements = this.declare(node.set, name)
+      return this.defineSequence(`HashSet<${elements}>`, elements)
+    }
+    if ("map" in node) {
+      const key = this.declare(node.map.key, `${name}Key`)
+      const value = this.declare(node.map.value, name)
+      const entry = this.define(`(${key}, ${value})`, { Tuple: { elements: [key, value] } })
+      return this.defineSequence(`HashMap<${key}, ${value}>`, entry)
+    }
+    if ("tuple" in node) return this.declareTuple(node, name)
+    if ("struct" in node) return this.declareStruct(node, name)
+    if ("enum" in node) return this.declareEnum(node, name)
+    if ("nativeEnum" in node) return this.declareNativeEnum(node, name)
+
+    throw new Error(`Unsupported type ${JSON.stringify(node)}`)
+  }
+
+  private declareString(): Declaration {
+    const elements = this.declare("u8", "")
+    return this.define("String", {
+      Sequence: { length_width: 4, length_range: { start: 0, end: U32_MAX }, elements },
+    })
+  }
+
+  private declareOption(inner: Schema, name: string): Declaration {
+    const unit = this.declare({ struct: {} }, name)
+    const some = this.declare(inner, name)
+    return this.define(`Option<${some}>`, {
+      Enum: {
+        tag_width: 1,
+        variants: [
+          [0, "None", unit],
+          [1, "Some", some],
+        ],
+      },
+    })
+  }
+
+  private declareTuple(node: TupleType, name: string): Declaration {
+    const elements = node.tuple.map((element, index) => this.declare(element, `${name}${index}`))
+    if (elements.length === 0) return this.declare({ struct: {} }, name)
+    return this.define(`(${elements.join(", ")})`, { Tuple: { elements } })
+  }
+
+  private declareStruct(node: StructType, name: string): Declaration {
+    const keys = structFields(node).map(([key]) => key)
+    // Unit structs are declared like Rust's unit type
+    if (keys.length === 0) return this.define("()", { Primitive: 0 })
+
+    const existing = this.names.get(node)
+    if (existing) return existing
+    const declaration = this.names.add(node, name)
+    const fields: [string, Declaration][] = keys.map((key) => [
+      key,
+      this.declare(node.struct[key], `${declaration}${pascalCase(key)}`),
+    ])
+    this.definitions[declaration] = { Struct: { fields: { NamedFields: fields } } }
+    return declaration
+  }
+
+  private declareEnum(node: EnumType, name: string): Declaration {
+    const existing = this.names.get(node)
+    if (existing) return existing
+    const declaration = this.names.add(node, name)
+    const variants = node.enum.map((variant, index): [number, string, Declaration] => {
+      const variantName = Object.keys(variant.struct)[0]
+      const variantDeclaration = this.declareVariant(
+        variant.struct[variantName],
+        `${declaration}${pascalCase(variantName)}`,
+      )
+      return [index, variantName, variantDeclaration]
+    })
+    this.definitions[declaration] = { Enum: { tag_width: 1, variants } }
+    return declaration
+  }
+
+  private declareNativeEnum(node: NativeEnumType, name: string): Declaration {
+    const existing = this.names.get(node)
+    if (existing) return existing
+    const declaration = this.names.add(node, name)
+
+    const { variants, discriminants } = node.nativeEnum
+    this.definitions[declaration] = {
+      Enum: {
+        tag_width: 1,
+        variants: variants.map((variantName, index) => [
+          discriminants[index],
+          variantName,
+          this.declareVariant({ struct: {} }, `${declaration}${pascalCase(variantName)}`),
+        ]),
+      },
+    }
+    return declaration
+  }
+
+  /**
+   * Variants are structs of their own: named fields for a Struct payload,
+   * no fields for a unit and a single unnamed field for anything else.
+   */
+  private declareVariant(payload: Schema, name: string): Declaration {
+    const node = unwrapSchema(payload)
+    if (typeof node === "object" && "struct" in node) {
+      if (Object.keys(node.struct).length > 0) return this.declareStruct(node, name)
+
+      const declaration = this.names.add({ struct: {} }, name)
+      this.definitions[declaration] = { Struct: { fields: "Empty" } }
+      return declaration
+    }
+
+    const declaration = this.names.add({ struct: {} }, name)
+    this.definitions[declaration] = {
+      Struct: { fields: { UnnamedFields: [this.declare(payload, declaration)] } },
+    }
+    return declaration
+  }
+
+  private defineSequence(declaration: Declaration, elements: Declaration): Declaration {
+    return this.define(declaration, {
+      Sequence: { length_width: 4, length_range: { start: 0, end: U32_MAX }, elements },
+    })
+  }
+
+  private define(declaration: Declaration, definition: Definition): Declaration {
+    this.definitions[declaration] ??= definition
+    return declaration
+  }
+}
+
+/**
+ * Gather the definitions of a schema container, or of every Borsh argument
+ * and result in a NEAR ABI.
+ */
+export function collectDefinitions(
+  abi: BorshSchemaContainer | NearAbi,
+): Record<Declaration, Definition> {
+  if ("definitions" in abi) return abi.definitions
+
+  const definitions: Record<Declaration, Definition> = {}
+  for (const { params, result } of abi.body.functions) {
+    const schemas = [
+      ...(params?.serialization_type === "borsh" ? params.args.map((arg) => arg.type_schema) : []),
+      ...(result?.serialization_type === "borsh" ? [result.type_schema] : []),
+    ]
+    for (const schema of schemas) {
+      Object.assign(definitions, (schema as BorshSchemaContainer).definitions)
+    }
+  }
+  return definitions
+}
+
+/**
+ * What a declaration means in borsher terms. Variant payloads list the
+ * unnamed fields of the variant: none for a unit variant and several for a
+ * tuple variant.
+ */
+export type AbiType =
+  | { kind: "primitive"; type: IntegerType | BoolType | StringType }
+  | { kind: "unit" }
+  | { kind: "option"; inner: Declaration }
+  | { kind: "vec" | "set"; elements: Declaration }
+  | { kind: "array"; elements: Declaration; len: number }
+  | { kind: "map"; key: Declaration; value: Declaration }
+  | { kind: "tuple"; elements: Declaration[] }
+  | { kind: "struct"; fields: [string, Declaration][] }
+  | { kind: "newtype"; inner: Declaration }
+  | { kind: "enum"; variants: [string, Declaration[]][] }
+  | { kind: "nativeEnum"; variants: string[]; discriminants: number[] }
+
+/**
+ * Resolve a declaration against the definitions of a schema container.
+ */
+export function resolveDeclaration(
+  declaration: Declaration,
+  definitions: Record<Declaration, Definition>,
+): AbiType {
+  const definition = definitions[declaration]
+  if (declaration === "String") return { kind: "primitive", type: "string" }
+  if (declaration === "()") return { kind: "unit" }
+  if (declaration in PRIMITIVE_SIZES && (!definition || "Primitive" in definition)) {
+    return { kind: "primitive", type: declaration as IntegerType | BoolType }
+  }
+  if (!definition) throw new Error(`Type ${declaration} is not defined in the ABI`)
+
+  if ("Primitive" in definition) {
+    if (definition.Primitive === 0) return { kind: "unit" }
+    throw new Error(`Unsupported primitive ${declaration}`)
+  }
+  if ("Sequence" in definition)
+    return resolveSequence(declaration, definition.Sequence, definitions)
+  if ("Tuple" in definition) {
+    const { elements } = definition.Tuple
+    return elements.length === 0 ? { kind: "unit" } : { kind: "tuple", elements }
+  }
+  if ("Struct" in definition) {
+    const { fields } = definition.Struct
+    if (fields === "Empty") return { kind: "unit" }
+    if ("NamedFields" in fields) return { kind: "struct", fields: fields.NamedFields }
+    const elements = fields.UnnamedFields
+    if (elements.length === 1) return { kind: "newtype", inner: elements[0] }
+    return elements.length === 0 ? { kind: "unit" } : { kind: "tuple", elements }
+  }
+  return resolveEnum(declaration, definition.Enum, definitions)
+}
+
+function resolveSequence(
+  declaration: Declaration,
+  { length_width, length_range, elements }: Extract<Definition, { Sequence: unknown }>["Sequence"],
+  definitions: Record<Declaration, Definition>,
+): AbiType {
+  if (length_width === 0 && length_range.start === length_range.end) {
+    return { kind: "array", elements, len: length_range.start }
+  }
+  if (length_width !== 4) {
+    throw new Error(`Unsupported length width ${length_width} of ${declaration}`)
+  }
+  if (/^(Hash|BTree)Set</.test(declaration)) return { kind: "set", elements }
+  if (/^(Hash|BTree)Map</.test(declaration)) {
+    const entry = resolveDeclaration(elements, definitions)
+    if (entry.kind !== "tuple" || entry.elements.length !== 2) {
+      throw new Error(`Entries of ${declaration} must be (key, value) tuples`)
+    }
+    return { kind: "map", key: entry.elements[0], value: entry.elements[1] }
+  }
+  return { kind: "vec", elements }
+}
+
+function resolveEnum(
+  declaration: Declaration,
+  { tag_width, variants }: Extract<Definition, { Enum: unknown }>["Enum"],
+  definitions: Record<Declaration, Definition>,
+): AbiType {
+  if (tag_width !== 1) throw new Error(`Unsupported tag width ${tag_width} of ${declaration}`)
+
+  if (
+    declaration.startsWith("Option<") &&
+    variants.length === 2 &&
+    variants[0][1] === "None" &&
+    variants[1][1] === "Some"
+  ) {
+    return { kind: "option", inner: variants[1][2] }
+  }
+
+  const payloads = variants.map(([, , variantDeclaration]): Declaration[] => {
+    const variant = resolveDeclaration(variantDeclaration, definitions)
+    if (variant.kind === "unit") return []
+    // Tuple variants are structs with unnamed fields
+    if (
+      variant.kind === "tuple" &&
+      definitions[variantDeclaration] &&
+      "Struct" in definitions[variantDeclaration]
+    ) {
+      return variant.elements
+    }
+    if (variant.kind === "newtype") return [variant.inner]
+    return [variantDeclaration]
+  })
+
+  // Fieldless enums become native enums, which also keeps explicit discriminants
+  if (payloads.every((payload) => payload.length === 0)) {
+    return {
+      kind: "nativeEnum",
+      variants: variants.map(([, variantName]) => variantName),
+      discriminants: variants.map(([discriminant]) => discriminant),
+    }
+  }
+  if (variants.some(([discriminant], index) => discriminant !== index)) {
+    throw new Error(`Explicit discriminants of ${declaration} are only supported without fields`)
+  }
+  return {
+    kind: "enum",
+    variants: variants.map(([, variantName], index) => [variantName, payloads[index]]),
+  }
+}
+
+/**
+ * AbiReader turns the definitions of a schema container back into a schema.
+ * Recursive definitions are read as lazy schemas.
+ */
+export class AbiReader {
+  private readonly definitions: Record<Declaration, Definition>
+  private readonly nodes = new Map<Declaration, Schema>()
+  private readonly reading = new Set<Declaration>()
+
+  constructor(definitions: Record<Declaration, Definition>) {
+    this.definitions = definitions
+  }
+
+  read(declaration: Declaration): Schema {
+    const cached = this.nodes.get(declaration)
+    if (cached) return cached
+    if (this.reading.has(declaration)) {
+      return {
+        lazy: { resolve: () => this.nodes.get(declaration) as Schema, maxDepth: MAX_DEPTH },
+      }
+    }
+
+    this.reading.add(declaration)
+    const node = this.readType(resolveDeclaration(declaration, this.definitions))
+    this.reading.delete(declaration)
+    this.nodes.set(declaration, node)
+    return node
+  }
+
+  private readType(type: AbiType): Schema {
+    switch (type.kind) {
+      case "primitive":
+        return type.type
+      case "unit":
+        return { struct: {} }
+      case "option":
+        return { option: this.read(type.inner) }
+      case "vec":
+        return { array: { type: this.read(type.elements) } }
+      case "array":
+        return { array: { type: this.read(type.elements), len: type.len } }
+      case "set":
+        return { set: this.read(type.elements) }
+      case "map":
+        return { map: { key: this.read(type.key), value: this.read(type.value) } }
+      case "tuple":
+        return { tuple: type.elements.map((element) => this.read(element)) }
+      case "struct":
+        // Keeps the field order when integer-like names are mixed with others
+        return createStruct(type.fields.map(([key, field]) => [key, this.read(field)]))
+      case "newtype":
+        return this.read(type.inner)
+      case "enum":
+        return {
+          enum: type.variants.map(([variantName, payload]) => ({
+            struct: { [variantName]: this.readPayload(payload) },
+          })),
+        }
+      case "nativeEnum":
+        return { nativeEnum: { variants: type.variants, discriminants: type.discriminants } }
+    }
+  }
+
+  private readPayload(payload: Declaration[]): Schema {
+    if (payload.length === 0) return { struct: {} }
+    if (payload.length === 1) return this.read(payload[0])
+    return { tuple: payload.map((element) => this.read(element)) }
+  }
+}
@@ -0,0 +1,147 @@
+import type { Schema } from "./types"
+
+/**
+ * Typed array constructors for the element types a Vec or fixed-size array can
+ * be decoded into.
+ */
+export const TYPED_ARRAYS = {
+  u8: Uint8Array,
+  u16: Uint16Array,
+  u32: Uint32Array,
+  i8: Int8Array,
+  i16: Int16Array,
+  i32: Int32Array,
+  u64: BigUint64Array,
+  i64: BigInt64Array,
+  f32: Float32Array,
+  f64: Float64Array,
+} as const
+
+// Define valid TypedArray types
+export type TypedArrayType = keyof typeof TYPED_ARRAYS
+
+export type TypedArray = InstanceType<(typeof TYPED_ARRAYS)[TypedArrayType]>
+
+/**
+ * Borsh is little-endian, so on little-endian hosts typed arrays can be copied
+ * to and from the wire format without touching individual elements.
+ */
+export const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+/**
+ * Get the typed array type a Vec or fixed-size array schema decodes into, if any.
+ */
+export function getTypedArrayType(schema: Schema): TypedArrayType | undefined {
+  if (typeof schema !== "object" || !("array" in schema)) return undefined
+  const element = schema.array.type
+  return typeof element === "string" && element in TYPED_ARRAYS
+    ? (element as TypedArrayType)
+    : undefined
+}
+
+/**
+ * Fixed-width view over packed little-endian 128-bit integers, the wire format
+ * of a `Vec<u128>` or `Vec<i128>`. Elements are only converted to bigint when
+ * accessed.
+ */
+abstract class Packed128Array implements Iterable<bigint> {
+  static readonly BYTES_PER_ELEMENT = 16
+
+  // The raw little-endian bytes, 16 per element
+  readonly bytes: Uint8Array
+  protected abstract readonly signed: boolean
+
+  constructor(lengthOrBytes: number | Uint8Array) {
+    if (typeof lengthOrBytes === "number") {
+      this.bytes = new Uint8Array(lengthOrBytes * Packed128Array.BYTES_PER_ELEMENT)
+    } else if (lengthOrBytes.length % Packed128Array.BYTES_PER_ELEMENT !== 0) {
+      throw new RangeError(`Byte length ${lengthOrBytes.length} is not a multiple of 16`)
+    } else {
+      this.bytes = lengthOrBytes
+    }
+  }
+
+  get length(): number {
+    return this.bytes.length / Packed128Array.BYTES_PER_ELEMENT
+  }
+
+  get(index: number): bigint {
+    const view = this.view(index)
+    const value = view.getBigUint64(0, true) | (view.getBigUint64(8, true) << 64n)
+    return this.signed ? BigInt.asIntN(128, value) : value
+  }
+
+  set(index: number, value: bigint): void {
+    const view = this.view(index)
+    view.setBigUint64(0, BigInt.asUintN(64, value), true)
+    view.setBigUint64(8, BigInt.asUintN(64, value >> 64n), true)
+  }
+
+  *[Symbol.iterator](): IterableIterator<bigint> {
+    for (let i = 0; i < this.length; i++) yield this.get(i)
+  }
+
+  toArray(): bigint[] {
+    return Array.from(this)
+  }
+
+  protected setAll(values: bigint[]): this {
+    values.forEach((value, index) => this.set(index, value))
+    return this
+  }
+
+  private view(index: number): DataView {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      throw new RangeError(`Index ${index} is out of bounds for length ${this.length}`)
+    }
+    const offset = this.bytes.byteOffset + index * Packed128Array.BYTES_PER_ELEMENT
+    return new DataView(this.bytes.buffer, offset, Packed128Array.BYTES_PER_ELEMENT)
+  }
+}
+
+/**
+ * Packed `Vec<u128>`, e.g. a list of balances.
+ */
+export class BigUint128Array extends Packed128Array {
+  protected readonly signed = false
+
+  static from(values: Iterable<bigint>): BigUint128Array {
+    const items = Array.from(values)
+    return new BigUint128Array(items.length).setAll(items)
+  }
+}
+
+/**
+ * Packed `Vec<i128>`.
+ */
+export class BigInt128Array extends Packed128Array {
+  protected readonly signed = true
+
+  static from(values: Iterable<bigint>): BigInt128Array {
+    const items = Array.from(values)
+    return new BigInt128Array(items.length).setAll(items)
+  }
+}
+
+/**
+ * Packed array classes for the element types that support `{ packed: true }`.
+ */
+export const PACKED_ARRAYS = {
+  u128: BigUint128Array,
+  i128: BigInt128Array,
+} as const
+
+export type PackedArrayType = keyof typeof PACKED_ARRAYS
+
+/**
+ * Get the packed array type an array schema decodes into, if any.
+ */
+export function getPackedArrayType(schema: Schema): PackedArrayType | undefined {
+  if (typeof schema !== "object" || !("array" in schema) || !schema.array.packed) {
+    return undefined
+  }
+  const element = schema.array.type
+  return typeof element === "string" && element in PACKED_ARRAYS
+    ? (element as PackedArrayType)
+    : undefined
+}
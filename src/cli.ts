@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs"
+import { type Declaration, type Definition, collectDefinitions } from "./abi"
+import { generateFromDefinitions } from "./codegen"
+import { parseRust } from "./rust"
+
+const USAGE = `Usage: borsher-codegen [options] <file.rs | file.abi.json>...
+
+Generate b.* schemas and types from Rust sources or NEAR ABI files.
+
+Options:
+  -o, --out <file>       Write to a file instead of stdout
+  --import <module>      Module to import b from (default: borsher)
+  -h, --help             Show this help`
+
+function main(args: string[]): void {
+  const files: string[] = []
+  let out: string | undefined
+  let importFrom: string | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === "-h" || arg === "--help") {
+      console.log(USAGE)
+      return
+    }
+    if (arg === "-o" || arg === "--out") out = args[++i]
+    else if (arg === "--import") importFrom = args[++i]
+    else if (arg.startsWith("-")) throw new Error(`Unknown option ${arg}\n\n${USAGE}`)
+    else files.push(arg)
+  }
+  if (files.length === 0) throw new Error(USAGE)
+
+  const rustSources = files
+    .filter((file) => file.endsWith(".rs"))
+    .map((file) => readFileSync(file, "utf8"))
+  const definitions: Record<Declaration, Definition> =
+    rustSources.length > 0 ? parseRust(rustSources) : {}
+  for (const file of files.filter((file) => !file.endsWith(".rs"))) {
+    Object.assign(definitions, collectDefinitions(JSON.parse(readFileSync(file, "utf8"))))
+  }
+
+  const output = generateFromDefinitions(definitions, { importFrom })
+  if (out) writeFileSync(out, output)
+  else process.stdout.write(output)
+}
+
+try {
+  main(process.argv.slice(2))
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}
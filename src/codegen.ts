@@ -0,0 +1,290 @@
+import {
+  type AbiType,
+  type BorshSchemaContainer,
+  type Declaration,
+  type Definition,
+  type NearAbi,
+  collectDefinitions,
+  resolveDeclaration,
+} from "./abi"
+import { TYPED_ARRAYS } from "./arrays"
+import { isIntegerLike } from "./fields"
+import { parseRust } from "./rust"
+
+export interface GenerateOptions {
+  // Module the generated file imports `b` from
+  importFrom?: string
+}
+
+// Kinds of definitions that get their own exported schema, along with tuple structs
+const NAMED_KINDS = new Set<AbiType["kind"]>(["struct", "enum", "nativeEnum"])
+
+const BIGINT_TYPES = new Set(["u64", "u128", "i64", "i128"])
+
+/**
+ * Generate a TypeScript module with a `b.*` schema and a type for every struct
+ * and enum of a NEAR ABI or schema container.
+ */
+export function generateTypeScript(
+  abi: BorshSchemaContainer | NearAbi,
+  options: GenerateOptions = {},
+): string {
+  return generateFromDefinitions(collectDefinitions(abi), options)
+}
+
+/**
+ * Generate a TypeScript module from the Borsh serializable structs and enums
+ * of Rust source files. See `parseRust` for what is supported.
+ */
+export function generateTypeScriptFromRust(
+  sources: string | string[],
+  options: GenerateOptions = {},
+): string {
+  return generateFromDefinitions(parseRust(sources), options)
+}
+
+export function generateFromDefinitions(
+  definitions: Record<Declaration, Definition>,
+  options: GenerateOptions = {},
+): string {
+  return new TypeScriptGenerator(definitions).generate(options.importFrom ?? "borsher")
+}
+
+/**
+ * TypeScriptGenerator emits definitions after the ones they depend on.
+ * Recursive definitions get an explicit type, since TypeScript cannot infer
+ * the type of a schema that refers to itself.
+ */
+class TypeScriptGenerator {
+  private readonly definitions: Record<Declaration, Definition>
+  private readonly types = new Map<Declaration, AbiType>()
+  private readonly identifiers = new Map<Declaration, string>()
+  private readonly emitted = new Set<Declaration>()
+  private readonly imports = new Set<string>(["b"])
+
+  constructor(definitions: Record<Declaration, Definition>) {
+    this.definitions = definitions
+
+    // Enum variants with unnamed fields are inlined into their enum
+    const variants = new Set<Declaration>()
+    for (const [declaration, definition] of Object.entries(definitions)) {
+      if ("Enum" in definition && this.resolve(declaration).kind === "enum") {
+        for (const [, , declaration] of definition.Enum.variants) variants.add(declaration)
+      }
+    }
+
+    for (const [declaration, definition] of Object.entries(definitions)) {
+      const { kind } = this.resolve(declaration)
+      const tupleStruct = (kind === "tuple" || kind === "newtype") && "Struct" in definition
+      if (NAMED_KINDS.has(kind) || (tupleStruct && !variants.has(declaration))) {
+        this.identifiers.set(declaration, declaration.replace(/[^A-Za-z0-9_$]+/g, "_"))
+      }
+    }
+  }
+
+  generate(importFrom: string): string {
+    const blocks: string[] = []
+    const visiting = new Set<Declaration>()
+    const visit = (declaration: Declaration) => {
+      if (this.emitted.has(declaration) || visiting.has(declaration)) return
+      visiting.add(declaration)
+      for (const dependency of this.dependencies(declaration)) visit(dependency)
+      blocks.push(this.emit(declaration))
+      this.emitted.add(declaration)
+    }
+    for (const declaration of this.identifiers.keys()) visit(declaration)
+
+    const imports = [...this.imports].sort().map((name) => (name === "b" ? name : `type ${name}`))
+    return `import { ${imports.join(", ")} } from ${JSON.stringify(importFrom)}\n\n${blocks.join("\n\n")}\n`
+  }
+
+  private emit(declaration: Declaration): string {
+    const identifier = this.identifiers.get(declaration) as string
+    const schema = this.schemaOf(declaration, true)
+    if (!this.isRecursive(declaration)) {
+      return `export const ${identifier} = ${schema}\nexport type ${identifier} = b.infer<typeof ${identifier}>`
+    }
+
+    this.imports.add("BorshSchema")
+    return `export type ${identifier} = ${this.typeOf(declaration, true)}\nexport const ${identifier}: BorshSchema<${identifier}> = ${schema}`
+  }
+
+  /**
+   * Schema expression of a declaration. Named definitions are referred to by
+   * name, through `b.lazy` if they are not emitted yet.
+   */
+  private schemaOf(declaration: Declaration, inline = false): string {
+    const identifier = this.identifiers.get(declaration)
+    if (identifier && !inline) {
+      return this.emitted.has(declaration) ? identifier : `b.lazy(() => ${identifier})`
+    }
+
+    const type = this.resolve(declaration)
+    switch (type.kind) {
+      case "primitive":
+        return `b.${type.type}()`
+      case "unit":
+        return "b.unit()"
+      case "option":
+        return `b.Option(${this.schemaOf(type.inner)})`
+      case "vec":
+        return `b.Vec(${this.schemaOf(type.elements)})`
+      case "array":
+        return type.elements === "u8"
+          ? `b.Bytes(${type.len})`
+          : `b.Array(${this.schemaOf(type.elements)}, ${type.len})`
+      case "set":
+        return `b.HashSet(${this.schemaOf(type.elements)})`
+      case "map":
+        return `b.HashMap(${this.schemaOf(type.key)}, ${this.schemaOf(type.value)})`
+      case "tuple":
+        return `b.Tuple(${type.elements.map((element) => this.schemaOf(element)).join(", ")})`
+      case "struct":
+        // An object would list integer-like names first, so they keep their order as pairs
+        if (type.fields.some(([key]) => isIntegerLike(key))) {
+          return `b.Struct([\n${type.fields
+            .map(([key, field]) => `  [${JSON.stringify(key)}, ${this.schemaOf(field)}],\n`)
+            .join("")}])`
+        }
+        return `b.Struct({\n${type.fields
+          .map(([key, field]) => `  ${propertyKey(key)}: ${this.schemaOf(field)},\n`)
+          .join("")}})`
+      case "newtype":
+        return this.schemaOf(type.inner)
+      case "enum":
+        return `b.Enum({\n${type.variants
+          .map(([variantName, payload]) => {
+            const payloadSchema =
+              payload.length === 0
+                ? "b.unit()"
+                : payload.length === 1
+                  ? this.schemaOf(payload[0])
+                  : `b.Tuple(${payload.map((element) => this.schemaOf(element)).join(", ")})`
+            return `  ${propertyKey(variantName)}: ${payloadSchema},\n`
+          })
+          .join("")}})`
+      case "nativeEnum": {
+        const sequential = type.discriminants.every((discriminant, index) => discriminant === index)
+        if (sequential) {
+          return `b.NativeEnum([${type.variants.map((name) => JSON.stringify(name)).join(", ")}])`
+        }
+        const entries = type.variants.map(
+          (name, index) => `${propertyKey(name)}: ${type.discriminants[index]}`,
+        )
+        return `b.NativeEnum({ ${entries.join(", ")} })`
+      }
+    }
+  }
+
+  /**
+   * Type expression of a declaration, only needed for recursive definitions.
+   */
+  private typeOf(declaration: Declaration, inline = false): string {
+    const identifier = this.identifiers.get(declaration)
+    if (identifier && !inline) return identifier
+
+    const type = this.resolve(declaration)
+    switch (type.kind) {
+      case "primitive":
+        if (type.type === "string") return "string"
+        if (type.type === "bool") return "boolean"
+        return BIGINT_TYPES.has(type.type) ? "bigint" : "number"
+      case "unit":
+        this.imports.add("Unit")
+        return "Unit"
+      case "option":
+        return `${this.typeOf(type.inner)} | null`
+      case "vec":
+      case "array":
+        if (type.elements in TYPED_ARRAYS) {
+          return TYPED_ARRAYS[type.elements as keyof typeof TYPED_ARRAYS].name
+        }
+        return `Array<${this.typeOf(type.elements)}>`
+      case "set":
+        return `Set<${this.typeOf(type.elements)}>`
+      case "map":
+        return `Map<${this.typeOf(type.key)}, ${this.typeOf(type.value)}>`
+      case "tuple":
+        return `[${type.elements.map((element) => this.typeOf(element)).join(", ")}]`
+      case "struct":
+        return `{ ${type.fields.map(([key, field]) => `${propertyKey(key)}: ${this.typeOf(field)}`).join("; ")} }`
+      case "newtype":
+        return this.typeOf(type.inner)
+      case "enum":
+        return type.variants
+          .map(([variantName, payload]) => {
+            const payloadType =
+              payload.length === 0
+                ? this.typeOf("()")
+                : payload.length === 1
+                  ? this.typeOf(payload[0])
+                  : `[${payload.map((element) => this.typeOf(element)).join(", ")}]`
+            return `{ ${propertyKey(variantName)}: ${payloadType} }`
+          })
+          .join(" | ")
+      case "nativeEnum":
+        return type.variants.map((name) => JSON.stringify(name)).join(" | ")
+    }
+  }
+
+  /**
+   * Named definitions a declaration refers to, directly or through anonymous
+   * types such as `Vec<Player>`.
+   */
+  private dependencies(declaration: Declaration, inline = true): Declaration[] {
+    if (!inline && this.identifiers.has(declaration)) return [declaration]
+
+    const type = this.resolve(declaration)
+    const children: Declaration[] = []
+    switch (type.kind) {
+      case "option":
+      case "newtype":
+        children.push(type.inner)
+        break
+      case "vec":
+      case "array":
+      case "set":
+        children.push(type.elements)
+        break
+      case "map":
+        children.push(type.key, type.value)
+        break
+      case "tuple":
+        children.push(...type.elements)
+        break
+      case "struct":
+        children.push(...type.fields.map(([, field]) => field))
+        break
+      case "enum":
+        children.push(...type.variants.flatMap(([, payload]) => payload))
+        break
+    }
+    return children.flatMap((child) => this.dependencies(child, false))
+  }
+
+  private isRecursive(declaration: Declaration): boolean {
+    const seen = new Set<Declaration>()
+    const pending = this.dependencies(declaration)
+    while (pending.length > 0) {
+      const next = pending.pop() as Declaration
+      if (next === declaration) return true
+      if (seen.has(next)) continue
+      seen.add(next)
+      pending.push(...this.dependencies(next))
+    }
+    return false
+  }
+
+  private resolve(declaration: Declaration): AbiType {
+    let type = this.types.get(declaration)
+    if (!type) {
+      type = resolveDeclaration(declaration, this.definitions)
+      this.types.set(declaration, type)
+    }
+    return type
+  }
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key)
+}
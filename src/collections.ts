@@ -0,0 +1,140 @@
+import { BorshEncoder } from "./encoder"
+import type { Schema } from "./types"
+
+/**
+ * Whether values of a schema can be Map keys as they are. Primitives compare
+ * by value, anything else is compared by its encoding.
+ */
+export function comparesByValue(schema: Schema): boolean {
+  return typeof schema === "string"
+}
+
+/**
+ * HashMap that compares keys by their Borsh encoding rather than by identity,
+ * so that `map.get(new Uint8Array([...]))` finds a decoded `[u8; 32]` key.
+ *
+ * `set` only takes valid values of the key schema, while lookups of other
+ * values miss. Keys must not be mutated while they are in the map. Iteration
+ * returns the first key that was set for each encoding.
+ */
+export class BorshMap<K, V> extends Map<K, V> {
+  private readonly keySchema: Schema
+  // First key set for each encoding
+  private readonly keysByEncoding = new Map<string, K>()
+
+  constructor(keySchema: Schema, entries?: Iterable<readonly [K, V]>) {
+    // Map's constructor calls set() before the fields above exist
+    super()
+    this.keySchema = keySchema
+    for (const [key, value] of entries ?? []) this.set(key, value)
+  }
+
+  get(key: K): V | undefined {
+    const encoding = lookupKey(key, this.keySchema)
+    if (encoding === undefined || !this.keysByEncoding.has(encoding)) return undefined
+    return super.get(this.keysByEncoding.get(encoding) as K)
+  }
+
+  has(key: K): boolean {
+    const encoding = lookupKey(key, this.keySchema)
+    return encoding !== undefined && this.keysByEncoding.has(encoding)
+  }
+
+  set(key: K, value: V): this {
+    const encoding = encodeKey(key, this.keySchema)
+    if (this.keysByEncoding.has(encoding)) {
+      super.set(this.keysByEncoding.get(encoding) as K, value)
+    } else {
+      this.keysByEncoding.set(encoding, key)
+      super.set(key, value)
+    }
+    return this
+  }
+
+  delete(key: K): boolean {
+    const encoding = lookupKey(key, this.keySchema)
+    if (encoding === undefined || !this.keysByEncoding.has(encoding)) return false
+    super.delete(this.keysByEncoding.get(encoding) as K)
+    return this.keysByEncoding.delete(encoding)
+  }
+
+  clear(): void {
+    super.clear()
+    this.keysByEncoding.clear()
+  }
+}
+
+/**
+ * HashSet that compares elements by their Borsh encoding rather than by
+ * identity. Like BorshMap, elements must not be mutated while in the set.
+ */
+export class BorshSet<T> extends Set<T> {
+  private readonly elementSchema: Schema
+  // First element added for each encoding
+  private readonly elementsByEncoding = new Map<string, T>()
+
+  constructor(elementSchema: Schema, values?: Iterable<T>) {
+    super()
+    this.elementSchema = elementSchema
+    for (const value of values ?? []) this.add(value)
+  }
+
+  has(value: T): boolean {
+    const encoding = lookupKey(value, this.elementSchema)
+    return encoding !== undefined && this.elementsByEncoding.has(encoding)
+  }
+
+  add(value: T): this {
+    const encoding = encodeKey(value, this.elementSchema)
+    if (!this.elementsByEncoding.has(encoding)) {
+      this.elementsByEncoding.set(encoding, value)
+      super.add(value)
+    }
+    return this
+  }
+
+  delete(value: T): boolean {
+    const encoding = lookupKey(value, this.elementSchema)
+    if (encoding === undefined || !this.elementsByEncoding.has(encoding)) return false
+    super.delete(this.elementsByEncoding.get(encoding) as T)
+    return this.elementsByEncoding.delete(encoding)
+  }
+
+  clear(): void {
+    super.clear()
+    this.elementsByEncoding.clear()
+  }
+}
+
+/**
+ * Create the Map a decoded HashMap is collected into.
+ */
+export function createMap<K, V>(keySchema: Schema): Map<K, V> {
+  return comparesByValue(keySchema) ? new Map() : new BorshMap(keySchema)
+}
+
+/**
+ * Create the Set a decoded HashSet is collected into.
+ */
+export function createSet<T>(elementSchema: Schema): Set<T> {
+  return comparesByValue(elementSchema) ? new Set() : new BorshSet(elementSchema)
+}
+
+// Values that can't be encoded aren't in the collection, like with a Map
+function lookupKey(value: unknown, schema: Schema): string | undefined {
+  try {
+    return encodeKey(value, schema)
+  } catch {
+    return undefined
+  }
+}
+
+// Encoded bytes as a string, one character per byte, to use as a Map key
+function encodeKey(value: unknown, schema: Schema): string {
+  const bytes = new BorshEncoder().encode(value, schema)
+  let key = ""
+  for (let i = 0; i < bytes.length; i += 0x1000) {
+    key += String.fromCharCode(...bytes.subarray(i, i + 0x1000))
+  }
+  return key
+}
@@ -0,0 +1,89 @@
+import type { BorshSchemaContainer, Declaration, Definition } from "./abi"
+import type { BorshDecoder } from "./decoder"
+import type { BorshEncoder } from "./encoder"
+import type { Schema } from "./types"
+
+// u64 and i64 values of a container, such as length ranges and discriminants,
+// are small enough to be plain numbers like in its JSON form
+const SMALL_INTEGER = (type: "u64" | "i64"): Schema => ({
+  transform: { type, decode: Number, encode: (value) => value },
+})
+
+const FIELDS: Schema = {
+  transform: {
+    type: {
+      enum: [
+        { struct: { NamedFields: { array: { type: { tuple: ["string", "string"] } } } } },
+        { struct: { UnnamedFields: { array: { type: "string" } } } },
+        { struct: { Empty: { struct: {} } } },
+      ],
+    },
+    decode: (value) => ("Empty" in (value as object) ? "Empty" : value),
+    encode: (value) => (value === "Empty" ? { Empty: {} } : value),
+  },
+}
+
+const DEFINITION: Schema = {
+  enum: [
+    { struct: { Primitive: "u8" } },
+    {
+      struct: {
+        Sequence: {
+          struct: {
+            length_width: "u8",
+            length_range: { struct: { start: SMALL_INTEGER("u64"), end: SMALL_INTEGER("u64") } },
+            elements: "string",
+          },
+        },
+      },
+    },
+    { struct: { Tuple: { struct: { elements: { array: { type: "string" } } } } } },
+    {
+      struct: {
+        Enum: {
+          struct: {
+            tag_width: "u8",
+            variants: { array: { type: { tuple: [SMALL_INTEGER("i64"), "string", "string"] } } },
+          },
+        },
+      },
+    },
+    { struct: { Struct: { struct: { fields: FIELDS } } } },
+  ],
+}
+
+/**
+ * Wire format of borsh-rs's `BorshSchemaContainer`. Definitions are a
+ * `BTreeMap`, so they are written sorted by declaration.
+ */
+const CONTAINER: Schema = {
+  struct: {
+    declaration: "string",
+    definitions: {
+      transform: {
+        type: { map: { key: "string", value: DEFINITION } },
+        decode: (value) => Object.fromEntries(value as Map<Declaration, Definition>),
+        encode: (value) =>
+          new Map(Object.entries(value as object).sort(([a], [b]) => (a < b ? -1 : 1))),
+      },
+    },
+  },
+}
+
+/**
+ * Write a schema container the way borsh-rs serializes it, and return the
+ * bytes written so far.
+ */
+export function encodeContainer(
+  encoder: BorshEncoder,
+  container: BorshSchemaContainer,
+): Uint8Array {
+  return encoder.encode(container, CONTAINER)
+}
+
+/**
+ * Read a schema container serialized by borsh-rs or `encodeContainer`.
+ */
+export function decodeContainer(decoder: BorshDecoder): BorshSchemaContainer {
+  return decoder.decode(CONTAINER) as BorshSchemaContainer
+}
@@ -0,0 +1,480 @@
+import {
+  LITTLE_ENDIAN,
+  PACKED_ARRAYS,
+  TYPED_ARRAYS,
+  type TypedArrayType,
+  getPackedArrayType,
+  getTypedArrayType,
+} from "./arrays"
+import { createMap, createSet } from "./collections"
+import {
+  BorshDecodeError,
+  type PathSegment,
+  formatExcerpt,
+  formatPath,
+  formatSchema,
+  formatValue,
+} from "./errors"
+import { structFields } from "./fields"
+import { compareValues } from "./ordering"
+import { fixedSize } from "./size"
+import type {
+  ArrayType,
+  EnumType,
+  IntegerType,
+  LazyType,
+  MapType,
+  NativeEnumType,
+  NumberType,
+  OptionType,
+  PipeType,
+  RefineType,
+  Schema,
+  SetType,
+  StructType,
+  TupleType,
+} from "./types"
+import { SchemaValidator } from "./validator"
+
+// Keep a leading U+FEFF: it is part of the value, not a byte order mark
+const textDecoder = new TextDecoder("utf-8", { ignoreBOM: true })
+
+export interface DecodeOptions {
+  // Reject bytes after the value
+  strict?: boolean
+  // Reject HashMaps and HashSets whose entries are not in canonical order
+  canonical?: boolean
+}
+
+/**
+ * BorshDecoder walks a schema tree and reads the matching value straight out
+ * of the source buffer. Vecs and arrays of numeric primitives are decoded
+ * directly into typed arrays, so no intermediate arrays or second pass are
+ * needed.
+ *
+ * Failures are reported as BorshDecodeError with the byte offset and the
+ * schema path being decoded.
+ */
+export class BorshDecoder {
+  private readonly bytes: Uint8Array
+  private readonly view: DataView
+  private offset = 0
+  private readonly path: PathSegment[]
+  // The innermost schema being decoded, for error reporting
+  private current: Schema = "u8"
+  // Number of lazy schemas currently being decoded
+  private depth = 0
+  private readonly canonical: boolean
+
+  /**
+   * Length the buffer needs for the failed read to succeed, when decoding
+   * failed because the buffer ended too early.
+   */
+  requiredLength: number | undefined
+
+  /**
+   * Offset of the next byte to decode.
+   */
+  get position(): number {
+    return this.offset
+  }
+
+  /**
+   * Decode from `offset` on. `path` is where the value sits in a larger
+   * value, for error messages.
+   */
+  constructor(
+    bytes: Uint8Array,
+    offset = 0,
+    path: readonly PathSegment[] = [],
+    options: DecodeOptions = {},
+  ) {
+    if (!Number.isInteger(offset) || offset < 0 || offset > bytes.length) {
+      throw new RangeError(`Offset ${offset} is outside the buffer of ${bytes.length} bytes`)
+    }
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    this.offset = offset
+    this.path = [...path]
+    this.canonical = options.canonical ?? false
+  }
+
+  /**
+   * Decode a single value described by the schema.
+   */
+  decode(schema: Schema): unknown {
+    return this.decodeValue(schema)
+  }
+
+  /**
+   * Read the tag of an Option, or the variant index of an Enum, without the
+   * value that follows it.
+   */
+  decodeTag(schema: OptionType | EnumType): number {
+    this.current = schema
+    const tag = this.readNumber("u8")
+    if ("option" in schema) {
+      if (tag > 1) throw this.error(`Invalid option tag ${tag}`, this.offset - 1)
+    } else if (tag >= schema.enum.length) {
+      throw this.error(`Invalid enum variant index ${tag}`, this.offset - 1)
+    }
+    return tag
+  }
+
+  /**
+   * Move past a value without decoding it. Only the tags and lengths needed
+   * to find the end of the value are read and checked.
+   */
+  skip(schema: Schema): void {
+    this.skipValue(schema)
+  }
+
+  /**
+   * Check that every byte of the buffer has been decoded.
+   */
+  end(): void {
+    const trailing = this.bytes.length - this.offset
+    if (trailing > 0) {
+      throw new BorshDecodeError(`Unexpected ${trailing} trailing bytes`, {
+        offset: this.offset,
+        path: "",
+        expected: "end of buffer",
+        excerpt: formatExcerpt(this.bytes, this.offset),
+      })
+    }
+  }
+
+  private decodeValue(schema: Schema): unknown {
+    this.current = schema
+    if (typeof schema === "string") {
+      if (schema === "string") return this.decodeString()
+      if (schema === "bool") return this.readNumber("u8") > 0
+      return this.decodeInteger(schema)
+    }
+
+    if ("option" in schema) return this.decodeOption(schema)
+    if ("enum" in schema) return this.decodeEnum(schema)
+    if ("nativeEnum" in schema) return this.decodeNativeEnum(schema)
+    if ("array" in schema) return this.decodeArray(schema)
+    if ("set" in schema) return this.decodeSet(schema)
+    if ("map" in schema) return this.decodeMap(schema)
+    if ("struct" in schema) return this.decodeStruct(schema)
+    if ("tuple" in schema) return this.decodeTuple(schema)
+    if ("refine" in schema) return this.decodeRefine(schema)
+    if ("transform" in schema) {
+      return schema.transform.decode(this.decodeValue(schema.transform.type))
+    }
+    if ("pipe" in schema) return this.decodePipe(schema)
+    if ("lazy" in schema) return this.decodeLazy(schema)
+
+    throw this.error(`Unsupported type ${JSON.stringify(schema)}`, this.offset)
+  }
+
+  private skipValue(schema: Schema): void {
+    this.current = schema
+    const size = fixedSize(schema)
+    if (size !== undefined) {
+      this.advance(size)
+      return
+    }
+
+    // Strings are the only primitives without a fixed size
+    if (typeof schema === "string") this.advance(this.readNumber("u32"))
+    else if ("option" in schema) {
+      if (this.decodeTag(schema) === 1) this.skipValue(schema.option)
+    } else if ("enum" in schema) {
+      this.skipValue(Object.values(schema.enum[this.decodeTag(schema)].struct)[0])
+    } else if ("array" in schema) this.skipArray(schema)
+    else if ("set" in schema) this.skipElements(this.readNumber("u32"), [schema.set])
+    else if ("map" in schema) {
+      this.skipElements(this.readNumber("u32"), [schema.map.key, schema.map.value])
+    } else if ("struct" in schema)
+      this.skipElements(
+        1,
+        structFields(schema).map(([, field]) => field),
+      )
+    else if ("tuple" in schema) this.skipElements(1, schema.tuple)
+    else if ("refine" in schema) this.skipValue(schema.refine.type)
+    else if ("transform" in schema) this.skipValue(schema.transform.type)
+    else if ("pipe" in schema) this.skipValue(schema.pipe.type)
+    else if ("lazy" in schema) {
+      if (++this.depth > schema.lazy.maxDepth) {
+        throw this.error(`Maximum recursion depth of ${schema.lazy.maxDepth} exceeded`, this.offset)
+      }
+      this.skipValue(schema.lazy.resolve())
+      this.depth--
+    }
+  }
+
+  private skipArray(schema: ArrayType): void {
+    const length = schema.array.len ?? this.readNumber("u32")
+    const size = fixedSize(schema.array.type)
+    if (size === undefined) this.skipElements(length, [schema.array.type])
+    else this.advance(length * size)
+  }
+
+  /**
+   * Skip `count` groups of values, such as the fields of a struct or the
+   * entries of a map.
+   */
+  private skipElements(count: number, schemas: Schema[]): void {
+    for (let i = 0; i < count; i++) {
+      for (const schema of schemas) this.skipValue(schema)
+    }
+  }
+
+  private decodeInteger(schema: IntegerType): number | bigint {
+    switch (schema) {
+      case "u64":
+        return this.readBigInt(8, false)
+      case "i64":
+        return this.readBigInt(8, true)
+      case "u128":
+        return this.readBigInt(16, false)
+      case "i128":
+        return this.readBigInt(16, true)
+      default:
+        return this.readNumber(schema)
+    }
+  }
+
+  private decodeString(): string {
+    const length = this.readNumber("u32")
+    return textDecoder.decode(this.readBytes(length))
+  }
+
+  private decodeOption(schema: OptionType): unknown {
+    return this.decodeTag(schema) === 1 ? this.decodeValue(schema.option) : null
+  }
+
+  private decodeEnum(schema: EnumType): unknown {
+    const variant = schema.enum[this.decodeTag(schema)].struct
+    const variantName = Object.keys(variant)[0]
+    if (schema.tag !== undefined) {
+      const fields = this.decodeValue(variant[variantName]) as Record<string, unknown>
+      return { [schema.tag]: variantName, ...fields }
+    }
+
+    this.path.push(variantName)
+    const value = this.decodeValue(variant[variantName])
+    this.path.pop()
+    return { [variantName]: value }
+  }
+
+  private decodeNativeEnum(schema: NativeEnumType): string {
+    const { variants, discriminants } = schema.nativeEnum
+    const discriminant = this.readNumber("u8")
+    const index = discriminants.indexOf(discriminant)
+    if (index === -1) {
+      throw this.error(`Invalid enum discriminant ${discriminant}`, this.offset - 1)
+    }
+    return variants[index]
+  }
+
+  private decodeArray(schema: ArrayType): unknown {
+    const length = schema.array.len ?? this.readNumber("u32")
+
+    const typedArrayType = getTypedArrayType(schema)
+    if (typedArrayType) return this.decodeTypedArray(typedArrayType, length)
+
+    const packedArrayType = getPackedArrayType(schema)
+    if (packedArrayType) {
+      const PackedArray = PACKED_ARRAYS[packedArrayType]
+      return new PackedArray(this.readBytes(length * PackedArray.BYTES_PER_ELEMENT).slice())
+    }
+
+    const result: unknown[] = []
+    for (let i = 0; i < length; i++) {
+      this.path.push(i)
+      result.push(this.decodeValue(schema.array.type))
+      this.path.pop()
+    }
+    return result
+  }
+
+  /**
+   * Copy the elements of a typed Vec or array out of the source buffer in one go. On
+   * big-endian hosts the elements are decoded one at a time instead.
+   */
+  private decodeTypedArray(type: TypedArrayType, length: number): unknown {
+    // Check the length against the buffer before allocating anything for it
+    const bytes = this.readBytes(length * TYPED_ARRAYS[type].BYTES_PER_ELEMENT)
+    const result = new TYPED_ARRAYS[type](length)
+    if (LITTLE_ENDIAN) {
+      new Uint8Array(result.buffer).set(bytes)
+      return result
+    }
+    this.offset -= bytes.length
+    for (let i = 0; i < length; i++) {
+      result[i] = this.decodeInteger(type) as never
+    }
+    return result
+  }
+
+  private decodeSet(schema: SetType): Set<unknown> {
+    const length = this.readNumber("u32")
+    const result = createSet(schema.set)
+    let previous: unknown
+    for (let i = 0; i < length; i++) {
+      this.path.push(i)
+      const offset = this.offset
+      const item = this.decodeValue(schema.set)
+      if (this.canonical && i > 0) this.expectSorted(previous, item, schema.set, offset, "Element")
+      result.add(item)
+      previous = item
+      this.path.pop()
+    }
+    return result
+  }
+
+  private decodeMap(schema: MapType): Map<unknown, unknown> {
+    const length = this.readNumber("u32")
+    const result = createMap(schema.map.key)
+    let previous: unknown
+    for (let i = 0; i < length; i++) {
+      const offset = this.offset
+      const key = this.decodeValue(schema.map.key)
+      if (this.canonical && i > 0) this.expectSorted(previous, key, schema.map.key, offset, "Key")
+      previous = key
+      this.path.push(schema.record ? String(key) : { key })
+      const value = this.decodeValue(schema.map.value)
+      this.path.pop()
+      result.set(key, value)
+    }
+    return result
+  }
+
+  /**
+   * Canonical sets and maps are strictly increasing, which also rules out
+   * duplicates.
+   */
+  private expectSorted(
+    previous: unknown,
+    item: unknown,
+    schema: Schema,
+    offset: number,
+    kind: "Key" | "Element",
+  ): void {
+    if (compareValues(previous, item, schema) < 0) return
+    this.current = schema
+    throw this.error(
+      `${kind} ${formatValue(item)} is not sorted after ${formatValue(previous)}`,
+      offset,
+    )
+  }
+
+  private decodeStruct(schema: StructType): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (const [key, field] of structFields(schema)) {
+      this.path.push(key)
+      // Assigning would set the prototype for a field named __proto__
+      Object.defineProperty(result, key, {
+        value: this.decodeValue(field),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+      this.path.pop()
+    }
+    return result
+  }
+
+  private decodeTuple(schema: TupleType): unknown[] {
+    return schema.tuple.map((element, index) => {
+      this.path.push(index)
+      const value = this.decodeValue(element)
+      this.path.pop()
+      return value
+    })
+  }
+
+  private decodeRefine(schema: RefineType): unknown {
+    const offset = this.offset
+    const value = this.decodeValue(schema.refine.type)
+    if (!schema.refine.check(value)) {
+      this.current = schema
+      throw this.error(schema.refine.message, offset)
+    }
+    return value
+  }
+
+  private decodePipe(schema: PipeType): unknown {
+    const offset = this.offset
+    const value = this.decodeValue(schema.pipe.type)
+    const issues = new SchemaValidator(this.path).validate(value, schema.pipe.next)
+    if (issues.length > 0) {
+      this.current = schema
+      throw this.error(issues.map((issue) => issue.message).join(", "), offset)
+    }
+    return value
+  }
+
+  private decodeLazy(schema: LazyType): unknown {
+    if (++this.depth > schema.lazy.maxDepth) {
+      throw this.error(`Maximum recursion depth of ${schema.lazy.maxDepth} exceeded`, this.offset)
+    }
+    const value = this.decodeValue(schema.lazy.resolve())
+    this.depth--
+    return value
+  }
+
+  private readNumber(type: NumberType): number {
+    switch (type) {
+      case "u8":
+        return this.view.getUint8(this.advance(1))
+      case "i8":
+        return this.view.getInt8(this.advance(1))
+      case "u16":
+        return this.view.getUint16(this.advance(2), true)
+      case "i16":
+        return this.view.getInt16(this.advance(2), true)
+      case "u32":
+        return this.view.getUint32(this.advance(4), true)
+      case "i32":
+        return this.view.getInt32(this.advance(4), true)
+      case "f32":
+        return this.view.getFloat32(this.advance(4), true)
+      case "f64":
+        return this.view.getFloat64(this.advance(8), true)
+    }
+  }
+
+  private readBigInt(size: 8 | 16, signed: boolean): bigint {
+    const offset = this.advance(size)
+    let value = this.view.getBigUint64(offset, true)
+    if (size === 16) {
+      value |= this.view.getBigUint64(offset + 8, true) << 64n
+    }
+    return signed ? BigInt.asIntN(size * 8, value) : value
+  }
+
+  private readBytes(length: number): Uint8Array {
+    const offset = this.advance(length)
+    return this.bytes.subarray(offset, offset + length)
+  }
+
+  /**
+   * Move past `size` bytes and return the offset they start at.
+   */
+  private advance(size: number): number {
+    const offset = this.offset
+    if (offset + size > this.bytes.length) {
+      this.requiredLength = offset + size
+      throw this.error(
+        `Unexpected end of buffer, needed ${size} bytes but ${this.bytes.length - offset} left`,
+        offset,
+      )
+    }
+    this.offset += size
+    return offset
+  }
+
+  private error(reason: string, offset: number): BorshDecodeError {
+    return new BorshDecodeError(reason, {
+      offset,
+      path: formatPath(this.path),
+      expected: formatSchema(this.current),
+      excerpt: formatExcerpt(this.bytes, offset),
+    })
+  }
+}
@@ -0,0 +1,147 @@
+import { TYPED_ARRAYS, getPackedArrayType, getTypedArrayType } from "./arrays"
+import { structFields } from "./fields"
+import type { IntegerType, Schema } from "./types"
+
+export type PrimitiveType = IntegerType | "bool" | "string"
+
+/**
+ * Class a Vec or fixed-size array decodes into, when not a plain array.
+ */
+export type TypedArrayName =
+  | "Uint8Array"
+  | "Uint16Array"
+  | "Uint32Array"
+  | "BigUint64Array"
+  | "Int8Array"
+  | "Int16Array"
+  | "Int32Array"
+  | "BigInt64Array"
+  | "Float32Array"
+  | "Float64Array"
+  | "BigUint128Array"
+  | "BigInt128Array"
+
+/**
+ * Public description of a schema, returned by `BorshSchema.describe()`.
+ *
+ * Structs with no fields describe `b.unit()`. Lazy schemas are resolved on
+ * demand, so recursive schemas can be described.
+ */
+export type SchemaDescription =
+  | { readonly kind: "primitive"; readonly type: PrimitiveType }
+  | { readonly kind: "option"; readonly inner: SchemaDescription }
+  | {
+      readonly kind: "vec"
+      readonly element: SchemaDescription
+      readonly typedArray?: TypedArrayName
+    }
+  | {
+      readonly kind: "array"
+      readonly element: SchemaDescription
+      readonly length: number
+      readonly typedArray?: TypedArrayName
+    }
+  | { readonly kind: "set"; readonly element: SchemaDescription }
+  | { readonly kind: "map"; readonly key: SchemaDescription; readonly value: SchemaDescription }
+  | { readonly kind: "tuple"; readonly elements: readonly SchemaDescription[] }
+  | {
+      readonly kind: "struct"
+      readonly fields: readonly { readonly name: string; readonly schema: SchemaDescription }[]
+    }
+  | {
+      readonly kind: "enum"
+      readonly variants: readonly {
+        readonly name: string
+        readonly index: number
+        readonly schema: SchemaDescription
+      }[]
+      // Discriminant property of tagged enums
+      readonly tag?: string
+    }
+  | {
+      readonly kind: "nativeEnum"
+      readonly variants: readonly { readonly name: string; readonly discriminant: number }[]
+    }
+  | { readonly kind: "refine"; readonly inner: SchemaDescription; readonly message: string }
+  | { readonly kind: "transform"; readonly inner: SchemaDescription }
+  | { readonly kind: "pipe"; readonly inner: SchemaDescription; readonly next: SchemaDescription }
+  | { readonly kind: "lazy"; readonly resolve: () => SchemaDescription }
+
+/**
+ * Describe the internal representation of a schema.
+ */
+export function describeSchema(schema: Schema): SchemaDescription {
+  if (typeof schema === "string") return { kind: "primitive", type: schema }
+  if ("option" in schema) return { kind: "option", inner: describeSchema(schema.option) }
+  if ("array" in schema) {
+    const element = describeSchema(schema.array.type)
+    const typedArray = getTypedArrayName(schema)
+    const length = schema.array.len
+    return {
+      ...(length === undefined ? { kind: "vec", element } : { kind: "array", element, length }),
+      ...(typedArray && { typedArray }),
+    }
+  }
+  if ("set" in schema) return { kind: "set", element: describeSchema(schema.set) }
+  if ("map" in schema) {
+    return {
+      kind: "map",
+      key: describeSchema(schema.map.key),
+      value: describeSchema(schema.map.value),
+    }
+  }
+  if ("tuple" in schema) return { kind: "tuple", elements: schema.tuple.map(describeSchema) }
+  if ("struct" in schema) {
+    return {
+      kind: "struct",
+      fields: structFields(schema).map(([name, field]) => ({
+        name,
+        schema: describeSchema(field),
+      })),
+    }
+  }
+  if ("enum" in schema) {
+    return {
+      kind: "enum",
+      variants: schema.enum.map((variant, index) => {
+        const name = Object.keys(variant.struct)[0]
+        return { name, index, schema: describeSchema(variant.struct[name]) }
+      }),
+      ...(schema.tag !== undefined && { tag: schema.tag }),
+    }
+  }
+  if ("nativeEnum" in schema) {
+    const { variants, discriminants } = schema.nativeEnum
+    return {
+      kind: "nativeEnum",
+      variants: variants.map((name, index) => ({ name, discriminant: discriminants[index] })),
+    }
+  }
+  if ("refine" in schema) {
+    return {
+      kind: "refine",
+      inner: describeSchema(schema.refine.type),
+      message: schema.refine.message,
+    }
+  }
+  if ("transform" in schema) {
+    return { kind: "transform", inner: describeSchema(schema.transform.type) }
+  }
+  if ("pipe" in schema) {
+    return {
+      kind: "pipe",
+      inner: describeSchema(schema.pipe.type),
+      next: describeSchema(schema.pipe.next),
+    }
+  }
+  const { resolve } = schema.lazy
+  return { kind: "lazy", resolve: () => describeSchema(resolve()) }
+}
+
+function getTypedArrayName(schema: Schema): TypedArrayName | undefined {
+  // Spelled out, as bundlers may rename our own classes
+  const packed = getPackedArrayType(schema)
+  if (packed) return packed === "u128" ? "BigUint128Array" : "BigInt128Array"
+  const typed = getTypedArrayType(schema)
+  return typed && (TYPED_ARRAYS[typed].name as TypedArrayName)
+}
@@ -0,0 +1,431 @@
+import {
+  LITTLE_ENDIAN,
+  PACKED_ARRAYS,
+  TYPED_ARRAYS,
+  getPackedArrayType,
+  getTypedArrayType,
+} from "./arrays"
+import { BorshValidationError, formatPath, formatSchema, formatValue } from "./errors"
+import { structFields } from "./fields"
+import { compareValues, sortCanonically } from "./ordering"
+import { utf8Length } from "./size"
+import type {
+  ArrayType,
+  EnumType,
+  IntegerType,
+  LazyType,
+  MapType,
+  NativeEnumType,
+  NumberType,
+  OptionType,
+  PipeType,
+  RefineType,
+  Schema,
+  SetType,
+  StructType,
+  TupleType,
+} from "./types"
+import { SchemaValidator } from "./validator"
+
+const textEncoder = new TextEncoder()
+
+/**
+ * BorshEncoder walks a schema tree and writes the matching value straight into
+ * a growable byte buffer, or into the caller's buffer when one is given.
+ */
+export class BorshEncoder {
+  private bytes: Uint8Array
+  private view: DataView
+  private offset: number
+  // Whether bytes is the caller's buffer, which can't grow
+  private readonly fixed: boolean
+  private readonly fieldPath: string[] = ["value"]
+  // Number of lazy schemas currently being encoded
+  private depth = 0
+
+  constructor(target?: Uint8Array, offset = 0) {
+    if (target && (!Number.isInteger(offset) || offset < 0 || offset > target.length)) {
+      throw new RangeError(`Offset ${offset} is outside the buffer of ${target.length} bytes`)
+    }
+    this.bytes = target ?? new Uint8Array(256)
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength)
+    this.offset = target ? offset : 0
+    this.fixed = target !== undefined
+  }
+
+  /**
+   * Offset of the next byte to write.
+   */
+  get position(): number {
+    return this.offset
+  }
+
+  /**
+   * Encode a value and return a view over the written bytes.
+   */
+  encode(value: unknown, schema: Schema): Uint8Array {
+    this.encodeValue(value, schema)
+    return this.bytes.subarray(0, this.offset)
+  }
+
+  private encodeValue(value: unknown, schema: Schema): void {
+    if (typeof schema === "string") {
+      if (schema === "string") this.encodeString(value)
+      else if (schema === "bool") this.encodeBool(value)
+      else this.encodeInteger(value, schema)
+      return
+    }
+
+    if ("option" in schema) this.encodeOption(value, schema)
+    else if ("enum" in schema) this.encodeEnum(value, schema)
+    else if ("nativeEnum" in schema) this.encodeNativeEnum(value, schema)
+    else if ("array" in schema) this.encodeArray(value, schema)
+    else if ("set" in schema) this.encodeSet(value, schema)
+    else if ("map" in schema) this.encodeMap(value, schema)
+    else if ("struct" in schema) this.encodeStruct(value, schema)
+    else if ("tuple" in schema) this.encodeTuple(value, schema)
+    else if ("refine" in schema) this.encodeRefine(value, schema)
+    else if ("transform" in schema) {
+      this.encodeValue(schema.transform.encode(value), schema.transform.type)
+    } else if ("pipe" in schema) this.encodePipe(value, schema)
+    else if ("lazy" in schema) this.encodeLazy(value, schema)
+  }
+
+  private encodeInteger(value: unknown, schema: IntegerType): void {
+    switch (schema) {
+      case "u64":
+      case "i64":
+        this.writeBigInt(this.expectBigInt(value), 8)
+        break
+      case "u128":
+      case "i128":
+        this.writeBigInt(this.expectBigInt(value), 16)
+        break
+      default:
+        this.expectType(value, "number")
+        this.writeNumber(value as number, schema)
+    }
+  }
+
+  private encodeString(value: unknown): void {
+    this.expectType(value, "string")
+    const string = value as string
+    // UTF-8 needs at most three bytes per UTF-16 code unit, but the caller's
+    // buffer only needs room for the exact length
+    this.reserve(4 + (this.fixed ? utf8Length(string) : string.length * 3))
+    const { written } = textEncoder.encodeInto(string, this.bytes.subarray(this.offset + 4))
+    this.view.setUint32(this.offset, written, true)
+    this.offset += 4 + written
+  }
+
+  private encodeBool(value: unknown): void {
+    this.expectType(value, "boolean")
+    this.writeNumber(value ? 1 : 0, "u8")
+  }
+
+  private encodeOption(value: unknown, schema: OptionType): void {
+    if (value === null || value === undefined) {
+      this.writeNumber(0, "u8")
+    } else {
+      this.writeNumber(1, "u8")
+      this.encodeValue(value, schema.option)
+    }
+  }
+
+  private encodeEnum(value: unknown, schema: EnumType): void {
+    this.expectObject(value)
+    const variantName =
+      schema.tag === undefined
+        ? Object.keys(value as object)[0]
+        : (value as Record<string, unknown>)[schema.tag]
+    const index = schema.enum.findIndex((variant) => Object.keys(variant.struct)[0] === variantName)
+    if (index === -1) {
+      throw new Error(
+        `Enum key (${variantName}) not found in enum schema: ${JSON.stringify(schema)} at ${this.path()}`,
+      )
+    }
+    this.writeNumber(index, "u8")
+    if (schema.tag === undefined) {
+      this.encodeStruct(value, schema.enum[index])
+    } else {
+      // Tagged variants keep their fields next to the tag
+      this.encodeValue(value, schema.enum[index].struct[variantName as string])
+    }
+  }
+
+  private encodeNativeEnum(value: unknown, schema: NativeEnumType): void {
+    const { variants, discriminants } = schema.nativeEnum
+    const index = variants.indexOf(value as string)
+    if (index === -1) {
+      throw new Error(
+        `Enum value (${value}) not found in enum variants: ${variants.join(", ")} at ${this.path()}`,
+      )
+    }
+    this.writeNumber(discriminants[index], "u8")
+  }
+
+  private encodeArray(value: unknown, schema: ArrayType): void {
+    if (value instanceof ArrayBuffer) {
+      this.encodeLength(value.byteLength, schema)
+      this.writeBytes(new Uint8Array(value))
+      return
+    }
+    const packedArrayType = getPackedArrayType(schema)
+    if (packedArrayType && value instanceof PACKED_ARRAYS[packedArrayType]) {
+      this.encodeLength(value.length, schema)
+      this.writeBytes(value.bytes)
+      return
+    }
+    if (!isArrayLike(value)) {
+      throw new Error(`Expected Array-like not ${typeof value}(${value}) at ${this.path()}`)
+    }
+
+    this.encodeLength(value.length, schema)
+
+    // Typed arrays already hold their elements in wire format
+    const typedArrayType = getTypedArrayType(schema)
+    if (LITTLE_ENDIAN && typedArrayType && value instanceof TYPED_ARRAYS[typedArrayType]) {
+      this.writeBytes(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+      return
+    }
+
+    for (let i = 0; i < value.length; i++) {
+      this.encodeValue(value[i], schema.array.type)
+    }
+  }
+
+  /**
+   * Sets and maps are written in canonical order, sorted like borsh-rs does.
+   */
+  private encodeSet(value: unknown, schema: SetType): void {
+    this.expectType(value, "object")
+    const values = sortCanonically(
+      value instanceof Set ? Array.from(value) : Object.values(value as object),
+      schema.set,
+    )
+    this.expectUnique(values, schema.set, "element")
+    this.writeNumber(values.length, "u32")
+    for (const item of values) {
+      this.encodeValue(item, schema.set)
+    }
+  }
+
+  private encodeMap(value: unknown, schema: MapType): void {
+    this.expectType(value, "object")
+    const entries = sortCanonically(
+      value instanceof Map ? Array.from(value.entries()) : Object.entries(value as object),
+      schema.map.key,
+      ([key]) => key,
+    )
+    this.expectUnique(
+      entries.map(([key]) => key),
+      schema.map.key,
+      "key",
+    )
+    this.writeNumber(entries.length, "u32")
+    for (const [key, item] of entries) {
+      this.encodeValue(key, schema.map.key)
+      this.encodeValue(item, schema.map.value)
+    }
+  }
+
+  private encodeStruct(value: unknown, schema: StructType): void {
+    this.expectType(value, "object")
+    for (const [key, field] of structFields(schema)) {
+      this.fieldPath.push(key)
+      this.encodeValue((value as Record<string, unknown>)[key], field)
+      this.fieldPath.pop()
+    }
+  }
+
+  private encodeTuple(value: unknown, schema: TupleType): void {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected tuple not ${typeof value}(${value}) at ${this.path()}`)
+    }
+    if (value.length !== schema.tuple.length) {
+      throw new Error(
+        `Tuple length ${value.length} does not match schema length ${schema.tuple.length} at ${this.path()}`,
+      )
+    }
+    schema.tuple.forEach((element, index) => this.encodeValue(value[index], element))
+  }
+
+  private encodeRefine(value: unknown, schema: RefineType): void {
+    const { type, check, message } = schema.refine
+    if (!check(value)) {
+      throw new BorshValidationError([
+        {
+          path: formatPath(this.fieldPath.slice(1)),
+          expected: formatSchema(type),
+          received: value,
+          message,
+        },
+      ])
+    }
+    this.encodeValue(value, type)
+  }
+
+  private encodePipe(value: unknown, schema: PipeType): void {
+    const issues = new SchemaValidator(this.fieldPath.slice(1)).validate(value, schema.pipe.next)
+    if (issues.length > 0) throw new BorshValidationError(issues)
+    this.encodeValue(value, schema.pipe.type)
+  }
+
+  private encodeLazy(value: unknown, schema: LazyType): void {
+    if (++this.depth > schema.lazy.maxDepth) {
+      throw new Error(
+        `Maximum recursion depth of ${schema.lazy.maxDepth} exceeded at ${this.path()}`,
+      )
+    }
+    this.encodeValue(value, schema.lazy.resolve())
+    this.depth--
+  }
+
+  /**
+   * Fixed-size arrays must match their declared length, vectors are prefixed
+   * with their length as a u32.
+   */
+  private encodeLength(length: number, schema: ArrayType): void {
+    if (schema.array.len === undefined) {
+      this.writeNumber(length, "u32")
+    } else if (length !== schema.array.len) {
+      throw new Error(
+        `Array length ${length} does not match schema length ${schema.array.len} at ${this.path()}`,
+      )
+    }
+  }
+
+  private writeNumber(value: number, type: NumberType): void {
+    switch (type) {
+      case "u8":
+        this.reserve(1)
+        this.view.setUint8(this.offset, value)
+        this.offset += 1
+        return
+      case "i8":
+        this.reserve(1)
+        this.view.setInt8(this.offset, value)
+        this.offset += 1
+        return
+      case "u16":
+        this.reserve(2)
+        this.view.setUint16(this.offset, value, true)
+        this.offset += 2
+        return
+      case "i16":
+        this.reserve(2)
+        this.view.setInt16(this.offset, value, true)
+        this.offset += 2
+        return
+      case "u32":
+        this.reserve(4)
+        this.view.setUint32(this.offset, value, true)
+        this.offset += 4
+        return
+      case "i32":
+        this.reserve(4)
+        this.view.setInt32(this.offset, value, true)
+        this.offset += 4
+        return
+      case "f32":
+        this.reserve(4)
+        this.view.setFloat32(this.offset, value, true)
+        this.offset += 4
+        return
+      case "f64":
+        this.reserve(8)
+        this.view.setFloat64(this.offset, value, true)
+        this.offset += 8
+        return
+    }
+  }
+
+  /**
+   * Write a bigint as a little-endian two's complement integer of the given
+   * byte size, wrapping values that do not fit.
+   */
+  private writeBigInt(value: bigint, size: 8 | 16): void {
+    this.reserve(size)
+    this.view.setBigUint64(this.offset, BigInt.asUintN(64, value), true)
+    if (size === 16) {
+      this.view.setBigUint64(this.offset + 8, BigInt.asUintN(64, value >> 64n), true)
+    }
+    this.offset += size
+  }
+
+  private writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length)
+    this.bytes.set(bytes, this.offset)
+    this.offset += bytes.length
+  }
+
+  /**
+   * Grow the underlying buffer so that at least `size` more bytes fit.
+   */
+  private reserve(size: number): void {
+    if (this.offset + size <= this.bytes.length) return
+    if (this.fixed) {
+      throw new RangeError(
+        `Buffer of ${this.bytes.length} bytes is too small, needed ${this.offset + size} bytes at ${this.path()}`,
+      )
+    }
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.offset + size))
+    grown.set(this.bytes.subarray(0, this.offset))
+    this.bytes = grown
+    this.view = new DataView(grown.buffer)
+  }
+
+  private expectType(value: unknown, type: "number" | "string" | "boolean" | "object"): void {
+    const actual = typeof value
+    if (actual !== type) {
+      throw new Error(`Expected ${type} not ${actual}(${value}) at ${this.path()}`)
+    }
+  }
+
+  /**
+   * Distinct objects can still be equal keys, which would make the encoding
+   * ambiguous.
+   */
+  private expectUnique(sorted: unknown[], schema: Schema, kind: "key" | "element"): void {
+    for (let i = 1; i < sorted.length; i++) {
+      if (compareValues(sorted[i - 1], sorted[i], schema) === 0) {
+        throw new Error(`Duplicate ${kind} ${formatValue(sorted[i])} at ${this.path()}`)
+      }
+    }
+  }
+
+  private expectObject(value: unknown): void {
+    if (typeof value !== "object" || value === null) {
+      throw new Error(`Expected object not ${typeof value}(${value}) at ${this.path()}`)
+    }
+  }
+
+  /**
+   * 64 and 128-bit integers accept anything BigInt() can convert.
+   */
+  private expectBigInt(value: unknown): bigint {
+    const basicType = ["number", "string", "bigint", "boolean"].includes(typeof value)
+    const stringable = typeof value === "object" && value !== null && "toString" in value
+    if (!basicType && !stringable) {
+      throw new Error(
+        `Expected bigint, number, boolean or string not ${typeof value}(${value}) at ${this.path()}`,
+      )
+    }
+    return BigInt(value as bigint)
+  }
+
+  private path(): string {
+    return this.fieldPath.join(".")
+  }
+}
+
+function isArrayLike(value: unknown): value is ArrayLike<unknown> {
+  return (
+    Array.isArray(value) ||
+    (typeof value === "object" &&
+      value !== null &&
+      "length" in value &&
+      typeof value.length === "number" &&
+      (value.length === 0 || value.length - 1 in value))
+  )
+}
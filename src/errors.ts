@@ -0,0 +1,145 @@
+import type { Schema } from "./types"
+
+/**
+ * A step into a nested value: a struct field or enum variant name, an array
+ * index, or a map lookup.
+ */
+export type PathSegment = string | number | { key: unknown }
+
+/**
+ * Format a path the way it would be written in code, e.g.
+ * `players[3].inventory.get("sword")`.
+ */
+export function formatPath(path: readonly PathSegment[]): string {
+  let result = ""
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      result += `[${segment}]`
+    } else if (typeof segment === "string") {
+      result += result ? `.${segment}` : segment
+    } else {
+      result += `${result ? "." : ""}get(${formatValue(segment.key)})`
+    }
+  }
+  return result
+}
+
+/**
+ * Short, single-line rendering of a value for error messages.
+ */
+export function formatValue(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value)
+  if (typeof value === "bigint") return `${value}n`
+  if (Array.isArray(value)) return `Array(${value.length})`
+  if (ArrayBuffer.isView(value)) return `${value.constructor.name}(${value.byteLength} bytes)`
+  if (value instanceof Map) return `Map(${value.size})`
+  if (value instanceof Set) return `Set(${value.size})`
+  if (typeof value === "object" && value !== null) return `{ ${Object.keys(value).join(", ")} }`
+  return String(value)
+}
+
+/**
+ * Rust-like name of a schema, e.g. `Vec<u8>` or `HashMap<string, u32>`.
+ */
+export function formatSchema(schema: Schema): string {
+  if (typeof schema === "string") return schema
+  if ("option" in schema) return `Option<${formatSchema(schema.option)}>`
+  if ("array" in schema) {
+    const element = formatSchema(schema.array.type)
+    return schema.array.len === undefined ? `Vec<${element}>` : `[${element}; ${schema.array.len}]`
+  }
+  if ("set" in schema) return `HashSet<${formatSchema(schema.set)}>`
+  if ("map" in schema) {
+    return `HashMap<${formatSchema(schema.map.key)}, ${formatSchema(schema.map.value)}>`
+  }
+  if ("tuple" in schema) return `(${schema.tuple.map(formatSchema).join(", ")})`
+  if ("enum" in schema || "nativeEnum" in schema) return "enum"
+  if ("refine" in schema) return formatSchema(schema.refine.type)
+  if ("transform" in schema) return formatSchema(schema.transform.type)
+  if ("pipe" in schema) return formatSchema(schema.pipe.type)
+  if ("lazy" in schema) return formatSchema(schema.lazy.resolve())
+  return "struct"
+}
+
+/**
+ * Hex dump of the bytes around an offset, with the byte at the offset in
+ * brackets, e.g. `05 00 00 00 [03] 61 62`.
+ */
+export function formatExcerpt(bytes: Uint8Array, offset: number, radius = 8): string {
+  const start = Math.max(0, offset - radius)
+  const end = Math.min(bytes.length, offset + radius + 1)
+  const hex: string[] = []
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i].toString(16).padStart(2, "0")
+    hex.push(i === offset ? `[${byte}]` : byte)
+  }
+  if (offset >= bytes.length) hex.push("[EOF]")
+  return `${start > 0 ? "… " : ""}${hex.join(" ")}${end < bytes.length ? " …" : ""}`
+}
+
+/**
+ * A single problem found while validating a value against a schema.
+ */
+export interface ValidationIssue {
+  // Where in the value the problem is, e.g. `players[3].inventory.get("sword")`
+  path: string
+  // The schema kind that was expected at this path, e.g. `u8` or `struct`
+  expected: string
+  // The value that was actually found
+  received: unknown
+  message: string
+}
+
+/**
+ * Thrown (or returned from the safe APIs) when a value does not match its schema.
+ */
+export class BorshValidationError extends Error {
+  readonly issues: ValidationIssue[]
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      issues
+        .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+        .join("\n"),
+    )
+    this.name = "BorshValidationError"
+    this.issues = issues
+  }
+}
+
+/**
+ * Result of the non-throwing APIs, modelled after Zod's `safeParse`.
+ */
+export type SafeResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: BorshValidationError }
+
+/**
+ * Thrown when a buffer cannot be decoded with a schema. Carries where in the
+ * buffer and where in the schema decoding broke.
+ */
+export class BorshDecodeError extends Error {
+  // Byte offset at which the failing read started
+  readonly offset: number
+  // Schema path of the value being decoded, e.g. `status.GameOver.winner`
+  readonly path: string
+  // The schema expected at this path, e.g. `string` or `Vec<u8>`
+  readonly expected: string
+  // Hex dump of the bytes around the offset
+  readonly excerpt: string
+
+  constructor(
+    reason: string,
+    details: { offset: number; path: string; expected: string; excerpt: string },
+  ) {
+    const location = details.path ? ` in ${details.path}` : ""
+    super(
+      `${reason} at byte ${details.offset}${location} (expected ${details.expected}): ${details.excerpt}`,
+    )
+    this.name = "BorshDecodeError"
+    this.offset = details.offset
+    this.path = details.path
+    this.expected = details.expected
+    this.excerpt = details.excerpt
+  }
+}
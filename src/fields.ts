@@ -0,0 +1,49 @@
+import type { Schema, StructType } from "./types"
+
+/**
+ * Build a struct node from fields in wire order. JS objects put integer-like
+ * keys such as "0" or "10" first, so the order is kept separately when the
+ * object's own key order differs.
+ */
+export function createStruct(fields: readonly (readonly [string, Schema])[]): StructType {
+  const struct: Record<string, Schema> = {}
+  for (const [name, schema] of fields) {
+    if (Object.hasOwn(struct, name)) throw new Error(`Duplicate struct field ${name}`)
+    Object.defineProperty(struct, name, { value: schema, enumerable: true })
+  }
+
+  const names = fields.map(([name]) => name)
+  const keys = Object.keys(struct)
+  return keys.every((key, index) => key === names[index]) ? { struct } : { struct, fields: names }
+}
+
+/**
+ * Fields of a struct node in wire order.
+ */
+export function structFields(schema: StructType): [string, Schema][] {
+  return (schema.fields ?? Object.keys(schema.struct)).map((name) => [name, schema.struct[name]])
+}
+
+/**
+ * Warn when fields given as an object may not be in the order they were
+ * written, because integer-like names are mixed with other names. Objects
+ * with only integer-like names, like `{ 0: ..., 1: ... }` for a tuple struct,
+ * keep their ascending order. Skipped when NODE_ENV is "production".
+ */
+export function warnOnReorderedFields(names: readonly string[]): void {
+  if (names.length < 2 || globalThis.process?.env?.NODE_ENV === "production") return
+
+  const integerLike = names.filter(isIntegerLike)
+  if (integerLike.length === 0 || integerLike.length === names.length) return
+  console.warn(
+    `Struct fields ${integerLike.join(", ")} are integer-like, so JavaScript may have moved them before the other fields. Pass [name, schema] pairs to b.Struct to set the field order.`,
+  )
+}
+
+/**
+ * Whether a field name is an array index, which objects list first in
+ * ascending order.
+ */
+export function isIntegerLike(name: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(name) && Number(name) < 2 ** 32 - 1
+}
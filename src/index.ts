@@ -37,16 +37,36 @@ export namespace b {
   export const f64 = () => BorshSchema.f64
   export const bool = () => BorshSchema.bool
   export const unit = () => BorshSchema.Unit
+  export const lazy = BorshSchema.Lazy
 
   // Complex types (uppercase, direct references)
   export const Option = BorshSchema.Option
   // biome-ignore lint/suspicious/noShadowRestrictedNames: <explanation>
   export const Array = BorshSchema.Array
   export const Vec = BorshSchema.Vec
+  export const Bytes = BorshSchema.Bytes
   export const HashSet = BorshSchema.HashSet
   export const HashMap = BorshSchema.HashMap
+  export const Record = BorshSchema.Record
   export const Struct = BorshSchema.Struct
+  export const Tuple = BorshSchema.Tuple
   export const Enum = BorshSchema.Enum
+  export const NativeEnum = BorshSchema.NativeEnum
 }
 
-export { BorshSchema, Unit } from "./schema"
+export { BorshEnumSchema, BorshSchema, BorshStructSchema, Unit } from "./schema"
+export { BigInt128Array, BigUint128Array } from "./arrays"
+export type { BorshSchemaContainer, Declaration, Definition, Fields, NearAbi } from "./abi"
+export type { JsonSchema } from "./json-schema"
+export type { DecodeOptions } from "./decoder"
+export type { ByteSource, DecodeStreamOptions } from "./stream"
+export { BorshMap, BorshSet } from "./collections"
+export { type BorshView, MapView, VecView } from "./view"
+export type { PrimitiveType, SchemaDescription, TypedArrayName } from "./describe"
+export { type GenerateOptions, generateTypeScript, generateTypeScriptFromRust } from "./codegen"
+export {
+  BorshDecodeError,
+  BorshValidationError,
+  type SafeResult,
+  type ValidationIssue,
+} from "./errors"
@@ -0,0 +1,159 @@
+import { DefinitionNames, pascalCase, unwrapSchema } from "./abi"
+import { structFields } from "./fields"
+import type { EnumType, NativeEnumType, Schema, StructType } from "./types"
+
+/**
+ * A JSON Schema (draft 7) document or subschema.
+ */
+export type JsonSchema = { [keyword: string]: unknown }
+
+// Schemas of the primitives, following the formats schemars uses for Rust types
+const PRIMITIVES: Record<string, JsonSchema> = {
+  u8: { type: "integer", format: "uint8", minimum: 0, maximum: 2 ** 8 - 1 },
+  u16: { type: "integer", format: "uint16", minimum: 0, maximum: 2 ** 16 - 1 },
+  u32: { type: "integer", format: "uint32", minimum: 0, maximum: 2 ** 32 - 1 },
+  u64: { type: "integer", format: "uint64", minimum: 0 },
+  u128: { type: "integer", format: "uint128", minimum: 0 },
+  i8: { type: "integer", format: "int8", minimum: -(2 ** 7), maximum: 2 ** 7 - 1 },
+  i16: { type: "integer", format: "int16", minimum: -(2 ** 15), maximum: 2 ** 15 - 1 },
+  i32: { type: "integer", format: "int32", minimum: -(2 ** 31), maximum: 2 ** 31 - 1 },
+  i64: { type: "integer", format: "int64" },
+  i128: { type: "integer", format: "int128" },
+  f32: { type: "number", format: "float" },
+  f64: { type: "number", format: "double" },
+  bool: { type: "boolean" },
+  string: { type: "string" },
+}
+
+/**
+ * JsonSchemaBuilder describes the values a schema serializes from and
+ * deserializes to. Structs and enums become `definitions`, named the same way
+ * as in `toAbi()`.
+ */
+export class JsonSchemaBuilder {
+  private readonly definitions: Record<string, JsonSchema> = {}
+  private readonly names = new DefinitionNames()
+
+  build(schema: Schema, name: string): JsonSchema {
+    const root = this.describe(schema, name)
+    const definitions = Object.fromEntries(
+      Object.keys(this.definitions)
+        .sort()
+        .map((key) => [key, this.definitions[key]]),
+    )
+    return {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: name,
+      ...root,
+      ...(Object.keys(definitions).length > 0 ? { definitions } : {}),
+    }
+  }
+
+  private describe(schema: Schema, name: string): JsonSchema {
+    const node = unwrapSchema(schema)
+
+    if (typeof node === "string") return { ...PRIMITIVES[node] }
+    if ("option" in node) return { anyOf: [this.describe(node.option, name), { type: "null" }] }
+    if ("array" in node) {
+      const { type, len } = node.array
+      const items = this.describe(type, name)
+      return len === undefined
+        ? { type: "array", items }
+        : { type: "array", items, minItems: len, maxItems: len }
+    }
+    if ("set" in node) {
+      return { type: "array", items: this.describe(node.set, name), uniqueItems: true }
+    }
+    if ("map" in node) {
+      const value = this.describe(node.map.value, name)
+      // Only string keys can be object properties, other maps are lists of entries
+      if (unwrapSchema(node.map.key) === "string") {
+        return { type: "object", additionalProperties: value }
+      }
+      const key = this.describe(node.map.key, `${name}Key`)
+      return {
+        type: "array",
+        items: { type: "array", items: [key, value], minItems: 2, maxItems: 2 },
+      }
+    }
+    if ("tuple" in node) {
+      const items = node.tuple.map((element, index) => this.describe(element, `${name}${index}`))
+      return { type: "array", items, minItems: items.length, maxItems: items.length }
+    }
+    if ("struct" in node) return this.describeStruct(node, name)
+    if ("enum" in node) return this.describeEnum(node, name)
+    if ("nativeEnum" in node) return this.describeNativeEnum(node, name)
+
+    throw new Error(`Unsupported type ${JSON.stringify(node)}`)
+  }
+
+  private describeStruct(node: StructType, name: string): JsonSchema {
+    const keys = structFields(node).map(([key]) => key)
+    if (keys.length === 0) return { type: "object", additionalProperties: false }
+
+    return this.define(node, name, (definitionName) => ({
+      type: "object",
+      properties: this.describeFields(node, definitionName),
+      required: keys,
+    }))
+  }
+
+  private describeEnum(node: EnumType, name: string): JsonSchema {
+    return this.define(node, name, (definitionName) => ({
+      oneOf: node.enum.map((variant) => {
+        const variantName = Object.keys(variant.struct)[0]
+        const payload = variant.struct[variantName]
+        const payloadName = `${definitionName}${pascalCase(variantName)}`
+
+        if (node.tag === undefined) {
+          return {
+            type: "object",
+            properties: { [variantName]: this.describe(payload, payloadName) },
+            required: [variantName],
+            additionalProperties: false,
+          }
+        }
+
+        // Tagged variants are always structs, with their fields next to the tag
+        const fields = unwrapSchema(payload) as StructType
+        return {
+          type: "object",
+          properties: {
+            [node.tag]: { const: variantName },
+            ...this.describeFields(fields, payloadName),
+          },
+          required: [node.tag, ...structFields(fields).map(([key]) => key)],
+        }
+      }),
+    }))
+  }
+
+  private describeNativeEnum(node: NativeEnumType, name: string): JsonSchema {
+    return this.define(node, name, () => ({ type: "string", enum: node.nativeEnum.variants }))
+  }
+
+  private describeFields(node: StructType, name: string): Record<string, JsonSchema> {
+    return Object.fromEntries(
+      structFields(node).map(([key, field]) => [
+        key,
+        this.describe(field, `${name}${pascalCase(key)}`),
+      ]),
+    )
+  }
+
+  /**
+   * Add a named definition once and refer to it.
+   */
+  private define(
+    node: Schema,
+    name: string,
+    build: (definitionName: string) => JsonSchema,
+  ): JsonSchema {
+    let definitionName = this.names.get(node)
+    if (definitionName === undefined) {
+      definitionName = this.names.add(node, name)
+      this.definitions[definitionName] = build(definitionName)
+    }
+    return { $ref: `#/definitions/${definitionName}` }
+  }
+}
@@ -0,0 +1,151 @@
+import { structFields } from "./fields"
+import type { EnumType, Schema } from "./types"
+
+/**
+ * Compare two values of a schema the way Rust's derived `Ord` compares them,
+ * which is the order borsh-rs writes HashMap keys and HashSet elements in:
+ *
+ *  - integers by value, and strings by their UTF-8 bytes
+ *  - Options with None first, enums by discriminant and then payload
+ *  - structs, tuples, Vecs and arrays element by element, shorter first
+ *
+ * This differs from comparing the serialized bytes, e.g. little-endian
+ * integers or length-prefixed strings.
+ */
+export function compareValues(a: unknown, b: unknown, schema: Schema): number {
+  if (typeof schema === "string") {
+    switch (schema) {
+      case "string":
+        return compareStrings(a as string, b as string)
+      case "u64":
+      case "u128":
+      case "i64":
+      case "i128":
+        return compareNumbers(BigInt(a as bigint), BigInt(b as bigint))
+      default:
+        return compareNumbers(Number(a), Number(b))
+    }
+  }
+
+  if ("option" in schema) {
+    const aNone = a === null || a === undefined
+    const bNone = b === null || b === undefined
+    if (aNone && bNone) return 0
+    if (aNone || bNone) return aNone ? -1 : 1
+    return compareValues(a, b, schema.option)
+  }
+  if ("enum" in schema) return compareEnums(a, b, schema)
+  if ("nativeEnum" in schema) {
+    const { variants, discriminants } = schema.nativeEnum
+    return compareNumbers(
+      discriminants[variants.indexOf(a as string)],
+      discriminants[variants.indexOf(b as string)],
+    )
+  }
+  if ("array" in schema) {
+    return compareSequences(elementsOf(a), elementsOf(b), () => schema.array.type)
+  }
+  if ("set" in schema) {
+    const sort = (value: unknown) => sortCanonically(Array.from(value as Set<unknown>), schema.set)
+    return compareSequences(sort(a), sort(b), () => schema.set)
+  }
+  if ("map" in schema) {
+    const entry: Schema = { tuple: [schema.map.key, schema.map.value] }
+    const sort = (value: unknown) =>
+      sortCanonically(Array.from(value as Map<unknown, unknown>), schema.map.key, ([key]) => key)
+    return compareSequences(sort(a), sort(b), () => entry)
+  }
+  if ("struct" in schema) {
+    for (const [key, field] of structFields(schema)) {
+      const order = compareValues(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+        field,
+      )
+      if (order !== 0) return order
+    }
+    return 0
+  }
+  if ("tuple" in schema) {
+    return compareSequences(a as unknown[], b as unknown[], (index) => schema.tuple[index])
+  }
+  if ("refine" in schema) return compareValues(a, b, schema.refine.type)
+  if ("transform" in schema) {
+    const { type, encode } = schema.transform
+    return compareValues(encode(a), encode(b), type)
+  }
+  if ("pipe" in schema) return compareValues(a, b, schema.pipe.type)
+  return compareValues(a, b, schema.lazy.resolve())
+}
+
+/**
+ * Sort values in canonical order. `keyOf` picks the part to sort by, e.g. the
+ * key of a map entry.
+ */
+export function sortCanonically<T>(
+  values: T[],
+  schema: Schema,
+  keyOf: (value: T) => unknown = (value) => value,
+): T[] {
+  return values.sort((a, b) => compareValues(keyOf(a), keyOf(b), schema))
+}
+
+function compareEnums(a: unknown, b: unknown, schema: EnumType): number {
+  const variantIndex = (value: unknown): number => {
+    const variantName =
+      schema.tag === undefined
+        ? Object.keys(value as object)[0]
+        : (value as Record<string, unknown>)[schema.tag]
+    return schema.enum.findIndex((variant) => Object.keys(variant.struct)[0] === variantName)
+  }
+  const index = variantIndex(a)
+  const order = compareNumbers(index, variantIndex(b))
+  if (order !== 0 || index === -1) return order
+
+  const [variantName, payload] = Object.entries(schema.enum[index].struct)[0]
+  return schema.tag === undefined
+    ? compareValues(
+        (a as Record<string, unknown>)[variantName],
+        (b as Record<string, unknown>)[variantName],
+        payload,
+      )
+    : compareValues(a, b, payload)
+}
+
+function compareSequences(
+  a: ArrayLike<unknown>,
+  b: ArrayLike<unknown>,
+  schemaAt: (index: number) => Schema,
+): number {
+  const length = Math.min(a.length, b.length)
+  for (let i = 0; i < length; i++) {
+    const order = compareValues(a[i], b[i], schemaAt(i))
+    if (order !== 0) return order
+  }
+  return compareNumbers(a.length, b.length)
+}
+
+// UTF-8 bytes sort like code points, which UTF-16 code units don't
+function compareStrings(a: string, b: string): number {
+  if (a === b) return 0
+  let i = 0
+  while (i < a.length && i < b.length) {
+    const aCode = a.codePointAt(i) as number
+    const bCode = b.codePointAt(i) as number
+    if (aCode !== bCode) return compareNumbers(aCode, bCode)
+    i += aCode > 0xffff ? 2 : 1
+  }
+  return compareNumbers(a.length, b.length)
+}
+
+function compareNumbers(a: number | bigint, b: number | bigint): number {
+  if (a < b) return -1
+  return a > b ? 1 : 0
+}
+
+function elementsOf(value: unknown): ArrayLike<unknown> {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value)
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) return value as ArrayLike<unknown>
+  // Packed 128-bit arrays are only iterable
+  return Array.from(value as Iterable<unknown>)
+}
@@ -0,0 +1,472 @@
+import type { Declaration, Definition, Fields } from "./abi"
+
+interface Token {
+  kind: "ident" | "punct" | "literal" | "lifetime"
+  value: string
+  line: number
+}
+
+// Rust primitives that map directly onto borsher primitives
+const PRIMITIVES = new Set([
+  "u8",
+  "u16",
+  "u32",
+  "u64",
+  "u128",
+  "i8",
+  "i16",
+  "i32",
+  "i64",
+  "i128",
+  "f32",
+  "f64",
+  "bool",
+  "String",
+])
+
+// borsh-rs writes pointer-sized integers as 64-bit ones
+const POINTER_SIZED: Record<string, string> = { usize: "u64", isize: "i64" }
+
+// Smart pointers that serialize as their contents
+const TRANSPARENT = new Set(["Box", "Rc", "Arc"])
+
+const SEQUENCES = new Set(["Vec", "VecDeque", "LinkedList", "HashSet", "BTreeSet"])
+const MAPS = new Set(["HashMap", "BTreeMap"])
+
+const U32_MAX = 2 ** 32 - 1
+
+/**
+ * Parse the structs and enums deriving `BorshSerialize` or `BorshDeserialize`
+ * (or marked `#[near(serializers = [borsh])]`) out of Rust source files, into
+ * the definitions of a schema container.
+ *
+ * This is a syntactic parser, no compiler is involved: generic types, macros
+ * and type aliases are not supported.
+ */
+export function parseRust(sources: string | string[]): Record<Declaration, Definition> {
+  const parser = new RustParser()
+  for (const source of typeof sources === "string" ? [sources] : sources) {
+    parser.parse(source)
+  }
+  return parser.finish()
+}
+
+/**
+ * RustParser scans the token stream for items and parses the ones that are
+ * Borsh serializable, skipping everything else.
+ */
+class RustParser {
+  private tokens: Token[] = []
+  private position = 0
+  private readonly definitions: Record<Declaration, Definition> = {}
+  // Names of user types and the line they were first used at
+  private readonly references = new Map<string, number>()
+
+  parse(source: string): void {
+    this.tokens = tokenize(source)
+    this.position = 0
+
+    let attributes: Token[][] = []
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position]
+      const next = this.tokens[this.position + 1]
+      if (this.isPunct("#") && (next?.value === "[" || next?.value === "!")) {
+        attributes.push(this.parseAttribute())
+      } else if (token.kind === "ident" && token.value === "pub") {
+        this.skipVisibility()
+      } else if (
+        token.kind === "ident" &&
+        (token.value === "struct" || token.value === "enum") &&
+        attributes.some(isBorshDerive)
+      ) {
+        if (token.value === "struct") this.parseStruct()
+        else this.parseEnum(attributes)
+        attributes = []
+      } else {
+        attributes = []
+        this.position++
+      }
+    }
+  }
+
+  finish(): Record<Declaration, Definition> {
+    for (const [name, line] of this.references) {
+      if (!(name in this.definitions)) {
+        throw new Error(
+          `Type ${name} used at line ${line} is not a Borsh serializable struct or enum`,
+        )
+      }
+    }
+    return this.definitions
+  }
+
+  private parseStruct(): void {
+    this.expectIdent("struct")
+    const name = this.parseItemName()
+
+    if (this.isPunct("{")) {
+      this.definitions[name] = { Struct: { fields: this.parseNamedFields() } }
+    } else if (this.isPunct("(")) {
+      this.definitions[name] = { Struct: { fields: this.parseUnnamedFields() } }
+      this.expectPunct(";")
+    } else {
+      this.expectPunct(";")
+      this.definitions[name] = { Struct: { fields: "Empty" } }
+    }
+  }
+
+  private parseEnum(attributes: Token[][]): void {
+    this.expectIdent("enum")
+    const name = this.parseItemName()
+    const useDiscriminant = attributes.some(isUseDiscriminant)
+
+    const variants: [number, string, Declaration][] = []
+    let discriminant = 0
+    this.expectPunct("{")
+    while (!this.isPunct("}")) {
+      this.skipAttributes()
+      const variantName = this.expect("ident").value
+      const declaration = `${name}${variantName}`
+
+      let fields: Fields = "Empty"
+      if (this.isPunct("{")) fields = this.parseNamedFields()
+      else if (this.isPunct("(")) fields = this.parseUnnamedFields()
+      this.definitions[declaration] = { Struct: { fields } }
+
+      if (this.isPunct("=")) {
+        this.position++
+        const value = this.parseInteger()
+        if (useDiscriminant) discriminant = value
+      }
+      variants.push([discriminant, variantName, declaration])
+      discriminant++
+
+      if (!this.isPunct("}")) this.expectPunct(",")
+    }
+    this.expectPunct("}")
+    this.definitions[name] = { Enum: { tag_width: 1, variants } }
+  }
+
+  private parseItemName(): string {
+    const name = this.expect("ident")
+    if (this.isPunct("<")) {
+      throw new Error(`Generic type ${name.value} at line ${name.line} is not supported`)
+    }
+    return name.value
+  }
+
+  private parseNamedFields(): Fields {
+    const fields: [string, Declaration][] = []
+    this.expectPunct("{")
+    while (!this.isPunct("}")) {
+      const skip = this.skipAttributes()
+      this.skipVisibility()
+      const fieldName = this.expect("ident").value
+      this.expectPunct(":")
+      const type = this.parseType()
+      if (!skip) fields.push([fieldName, type])
+      if (!this.isPunct("}")) this.expectPunct(",")
+    }
+    this.expectPunct("}")
+    return fields.length > 0 ? { NamedFields: fields } : "Empty"
+  }
+
+  private parseUnnamedFields(): Fields {
+    const fields: Declaration[] = []
+    this.expectPunct("(")
+    while (!this.isPunct(")")) {
+      const skip = this.skipAttributes()
+      this.skipVisibility()
+      const type = this.parseType()
+      if (!skip) fields.push(type)
+      if (!this.isPunct(")")) this.expectPunct(",")
+    }
+    this.expectPunct(")")
+    return fields.length > 0 ? { UnnamedFields: fields } : "Empty"
+  }
+
+  /**
+   * Parse a type and define the collections it uses, e.g. `Vec<u8>`.
+   */
+  private parseType(): Declaration {
+    const token = this.tokens[this.position]
+    if (this.isPunct("(")) return this.parseTupleType()
+    if (this.isPunct("[")) {
+      this.position++
+      const elements = this.parseType()
+      this.expectPunct(";")
+      const len = this.parseInteger()
+      this.expectPunct("]")
+      return this.define(`[${elements}; ${len}]`, {
+        Sequence: { length_width: 0, length_range: { start: len, end: len }, elements },
+      })
+    }
+    if (token?.kind !== "ident" && !this.isPunct("::")) {
+      throw new Error(`Unsupported type ${token?.value ?? "end of file"} at line ${token?.line}`)
+    }
+
+    // Only the last segment of a path matters, e.g. `std::collections::HashMap`
+    if (this.isPunct("::")) this.position++
+    let name = this.expect("ident").value
+    while (this.isPunct("::")) {
+      this.position++
+      name = this.expect("ident").value
+    }
+    const args = this.isPunct("<") ? this.parseTypeArguments() : []
+
+    if (PRIMITIVES.has(name) && args.length === 0) return name
+    if (Object.hasOwn(POINTER_SIZED, name) && args.length === 0) return POINTER_SIZED[name]
+    if (TRANSPARENT.has(name) && args.length === 1) return args[0]
+    if (name === "Option" && args.length === 1) {
+      return this.define(`Option<${args[0]}>`, {
+        Enum: {
+          tag_width: 1,
+          variants: [
+            [0, "None", "()"],
+            [1, "Some", args[0]],
+          ],
+        },
+      })
+    }
+    if (SEQUENCES.has(name) && args.length === 1) {
+      // Lists other than Vec have the same wire format as a Vec
+      const collection = name.endsWith("Set") ? name : "Vec"
+      return this.defineSequence(`${collection}<${args[0]}>`, args[0])
+    }
+    if (MAPS.has(name) && args.length === 2) {
+      const entry = this.define(`(${args[0]}, ${args[1]})`, { Tuple: { elements: args } })
+      return this.defineSequence(`${name}<${args[0]}, ${args[1]}>`, entry)
+    }
+    if (args.length > 0 || PRIMITIVES.has(name) || TRANSPARENT.has(name)) {
+      throw new Error(`Unsupported type ${name}<${args.join(", ")}> at line ${token.line}`)
+    }
+
+    if (!this.references.has(name)) this.references.set(name, token.line)
+    return name
+  }
+
+  private parseTupleType(): Declaration {
+    const elements: Declaration[] = []
+    let trailingComma = false
+    this.expectPunct("(")
+    while (!this.isPunct(")")) {
+      elements.push(this.parseType())
+      trailingComma = this.isPunct(",")
+      if (!this.isPunct(")")) this.expectPunct(",")
+    }
+    this.expectPunct(")")
+
+    if (elements.length === 0) return "()"
+    // `(T)` is just a parenthesized type, `(T,)` is a tuple
+    if (elements.length === 1 && !trailingComma) return elements[0]
+    return this.define(`(${elements.join(", ")})`, { Tuple: { elements } })
+  }
+
+  private parseTypeArguments(): Declaration[] {
+    const args: Declaration[] = []
+    this.expectPunct("<")
+    while (!this.isPunct(">")) {
+      if (this.tokens[this.position]?.kind === "lifetime") this.position++
+      else args.push(this.parseType())
+      if (!this.isPunct(">")) this.expectPunct(",")
+    }
+    this.expectPunct(">")
+    return args
+  }
+
+  private parseInteger(): number {
+    const negative = this.isPunct("-")
+    if (negative) this.position++
+    const token = this.expect("literal")
+    const value = Number(token.value.replace(/_/g, "").replace(/[iu](8|16|32|64|128|size)$/, ""))
+    if (!Number.isInteger(value)) {
+      throw new Error(`Expected an integer at line ${token.line}, found ${token.value}`)
+    }
+    return negative ? -value : value
+  }
+
+  private parseAttribute(): Token[] {
+    this.expectPunct("#")
+    if (this.isPunct("!")) this.position++
+    this.expectPunct("[")
+    const start = this.position
+    let depth = 1
+    while (depth > 0) {
+      const token = this.expect("punct", "ident", "literal", "lifetime")
+      if (token.kind !== "punct") continue
+      if (token.value === "[" || token.value === "(" || token.value === "{") depth++
+      if (token.value === "]" || token.value === ")" || token.value === "}") depth--
+    }
+    return this.tokens.slice(start, this.position - 1)
+  }
+
+  /**
+   * Skip the attributes of a field or variant, returning whether one of them
+   * is `#[borsh(skip)]`.
+   */
+  private skipAttributes(): boolean {
+    let skip = false
+    while (this.isPunct("#")) {
+      const attribute = this.parseAttribute()
+      const [name, ...rest] = attribute.map((token) => token.value)
+      if (name === "borsh_skip" || (name === "borsh" && rest.includes("skip"))) skip = true
+    }
+    return skip
+  }
+
+  private skipVisibility(): void {
+    if (this.tokens[this.position]?.value !== "pub") return
+    this.position++
+    if (this.isPunct("(")) {
+      while (!this.isPunct(")")) this.position++
+      this.position++
+    }
+  }
+
+  private defineSequence(declaration: Declaration, elements: Declaration): Declaration {
+    return this.define(declaration, {
+      Sequence: { length_width: 4, length_range: { start: 0, end: U32_MAX }, elements },
+    })
+  }
+
+  private define(declaration: Declaration, definition: Definition): Declaration {
+    this.definitions[declaration] ??= definition
+    return declaration
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.tokens[this.position]
+    return token?.kind === "punct" && token.value === value
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.tokens[this.position]
+    if (!this.isPunct(value)) {
+      throw new Error(
+        `Expected ${value} at line ${token?.line ?? "end of file"}, found ${token?.value}`,
+      )
+    }
+    this.position++
+  }
+
+  private expectIdent(value: string): void {
+    const token = this.expect("ident")
+    if (token.value !== value) {
+      throw new Error(`Expected ${value} at line ${token.line}, found ${token.value}`)
+    }
+  }
+
+  private expect(...kinds: Token["kind"][]): Token {
+    const token = this.tokens[this.position]
+    if (!token) throw new Error("Unexpected end of file")
+    if (!kinds.includes(token.kind)) {
+      throw new Error(`Expected ${kinds.join(" or ")} at line ${token.line}, found ${token.value}`)
+    }
+    this.position++
+    return token
+  }
+}
+
+function isBorshDerive(attribute: Token[]): boolean {
+  const [name, ...rest] = attribute.map((token) => token.value)
+  if (name === "derive") return rest.some((value) => /^Borsh(Serialize|Deserialize)$/.test(value))
+  // near-sdk's #[near(serializers = [borsh])]
+  return name === "near" && rest.includes("borsh")
+}
+
+function isUseDiscriminant(attribute: Token[]): boolean {
+  const values = attribute.map((token) => token.value)
+  const index = values.indexOf("use_discriminant")
+  return values[0] === "borsh" && index !== -1 && values[index + 2] === "true"
+}
+
+// Patterns matched at the current position while tokenizing
+const IDENT = /(?:r#)?[A-Za-z_][A-Za-z0-9_]*/y
+const NUMBER = /[0-9][0-9A-Za-z_]*/y
+const STRING_PREFIX = /(b?r)(#*)"|b?"/y
+const LIFETIME = /'[A-Za-z_][A-Za-z0-9_]*(?!')/y
+const CHAR = /b?'(?:\\.|[^\\'])+'/y
+
+/**
+ * Split Rust source into tokens, dropping whitespace and comments.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let line = 1
+  let i = 0
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = i
+    return pattern.exec(source)
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (char === "\n") {
+      line++
+      i++
+      continue
+    }
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+    if (source.startsWith("//", i)) {
+      while (i < source.length && source[i] !== "\n") i++
+      continue
+    }
+    if (source.startsWith("/*", i)) {
+      // Block comments nest in Rust
+      let depth = 0
+      do {
+        if (source.startsWith("/*", i)) {
+          depth++
+          i += 2
+        } else if (source.startsWith("*/", i)) {
+          depth--
+          i += 2
+        } else {
+          if (source[i] === "\n") line++
+          i++
+        }
+      } while (depth > 0 && i < source.length)
+      continue
+    }
+
+    // Plain, byte and raw strings, e.g. "a", b"a" or r#"a"#
+    const string = match(STRING_PREFIX)
+    if (string) {
+      const raw = string[1] !== undefined
+      const end = `"${raw ? string[2] : ""}`
+      tokens.push({ kind: "literal", value: "string", line })
+      i += string[0].length
+      while (i < source.length && !source.startsWith(end, i)) {
+        if (source[i] === "\n") line++
+        i += !raw && source[i] === "\\" ? 2 : 1
+      }
+      i += end.length
+      continue
+    }
+
+    const word = match(IDENT) ?? match(NUMBER)
+    if (word) {
+      const kind = /[0-9]/.test(char) ? "literal" : "ident"
+      tokens.push({ kind, value: word[0].replace(/^r#/, ""), line })
+      i += word[0].length
+      continue
+    }
+
+    const quoted = match(LIFETIME) ?? match(CHAR)
+    if (quoted) {
+      const kind = quoted[0].endsWith("'") ? "literal" : "lifetime"
+      tokens.push({ kind, value: quoted[0], line })
+      i += quoted[0].length
+      continue
+    }
+
+    const punct = source.startsWith("::", i) ? "::" : char
+    tokens.push({ kind: "punct", value: punct, line })
+    i += punct.length
+  }
+  return tokens
+}
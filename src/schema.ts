@@ -1,10 +1,23 @@
 import {
-  type Schema,
-  deserialize as thirdPartyDeserialize,
-  serialize as thirdPartySerialize,
-} from "borsh"
-import { SchemaVisitor } from "./visitor"
-import type { TypedArrayType } from "./visitor"
+  AbiBuilder,
+  AbiReader,
+  type BorshSchemaContainer,
+  type NearAbi,
+  collectDefinitions,
+} from "./abi"
+import type { BigInt128Array, BigUint128Array } from "./arrays"
+import { decodeContainer, encodeContainer } from "./container"
+import { BorshDecoder, type DecodeOptions } from "./decoder"
+import { type SchemaDescription, describeSchema } from "./describe"
+import { BorshEncoder } from "./encoder"
+import { BorshValidationError, type SafeResult, formatValue } from "./errors"
+import { createStruct, warnOnReorderedFields } from "./fields"
+import { type JsonSchema, JsonSchemaBuilder } from "./json-schema"
+import { ByteLengthCounter } from "./size"
+import { type ByteSource, type DecodeStreamOptions, decodeStream } from "./stream"
+import type { Schema } from "./types"
+import { SchemaValidator } from "./validator"
+import { type BorshView, createView } from "./view"
 
 /**
  * Helper type to extract the inner type from a BorshSchema.
@@ -14,26 +27,19 @@ export type TypeOf<T extends BorshSchema<unknown, string>> = T extends BorshSche
   : never
 
 /**
- * BorshSchema is a thin wrapper around the underlying third‐party schema.
- * It carries both compile‐time type information and (via an optional runtime
- * flag) extra metadata that lets our custom deserialize() method convert plain
- * arrays into typed arrays.
+ * BorshSchema is a thin wrapper around the underlying schema description.
+ * It carries compile‐time type information, while the runtime description
+ * drives our own encoder and decoder.
  */
-export class BorshSchema<T, Tag extends string = never> {
-  // The underlying third‐party schema.
+export class BorshSchema<T, Tag extends string = string> {
+  // The underlying schema description.
   private readonly schema: Schema
-  // If set (for vector schemas), indicates that the plain array should be
-  // converted into a typed array.
-  private readonly _typedArrayType?: TypedArrayType
   // Keep track of type and tag explicitly to help TypeScript with type inference
   private readonly _type: T
   private readonly _tag: Tag
-  private readonly visitor: SchemaVisitor
 
-  private constructor(schema: Schema, typedArrayType?: TypedArrayType) {
+  protected constructor(schema: Schema) {
     this.schema = schema
-    this._typedArrayType = typedArrayType
-    this.visitor = new SchemaVisitor()
     // These are only used for type inference, values don't matter
     this._type = null as T
     this._tag = "" as Tag
@@ -46,15 +52,15 @@ export class BorshSchema<T, Tag extends string = never> {
   static readonly u8 = new BorshSchema<number, "u8">("u8")
   static readonly u16 = new BorshSchema<number, "u16">("u16")
   static readonly u32 = new BorshSchema<number, "u32">("u32")
-  static readonly u64 = new BorshSchema<bigint, "u64">("u64") // no tag = no special Vec conversion
-  static readonly u128 = new BorshSchema<bigint>("u128")
+  static readonly u64 = new BorshSchema<bigint, "u64">("u64")
+  static readonly u128 = new BorshSchema<bigint, "u128">("u128")
 
   // Signed integers:
   static readonly i8 = new BorshSchema<number, "i8">("i8")
   static readonly i16 = new BorshSchema<number, "i16">("i16")
   static readonly i32 = new BorshSchema<number, "i32">("i32")
   static readonly i64 = new BorshSchema<bigint, "i64">("i64")
-  static readonly i128 = new BorshSchema<bigint>("i128")
+  static readonly i128 = new BorshSchema<bigint, "i128">("i128")
 
   // Floating point numbers:
   static readonly f32 = new BorshSchema<number, "f32">("f32")
@@ -68,19 +74,46 @@ export class BorshSchema<T, Tag extends string = never> {
     return new BorshSchema({ option: inner.schema })
   }
 
-  static Array<T extends BorshSchema<unknown, string>>(
-    inner: T,
-    length: number,
-  ): BorshSchema<TypeOf<T>[]> {
+  /**
+   * Array creates a fixed-length array schema, e.g. `[u8; 32]`.
+   *
+   * Like Vec, arrays of recognized numeric types are typed arrays, and their
+   * length is checked on encode.
+   */
+  static Array(inner: BorshSchema<number, "u8">, length: number): BorshSchema<Uint8Array>
+  static Array(inner: BorshSchema<number, "u16">, length: number): BorshSchema<Uint16Array>
+  static Array(inner: BorshSchema<number, "u32">, length: number): BorshSchema<Uint32Array>
+  static Array(inner: BorshSchema<number, "i8">, length: number): BorshSchema<Int8Array>
+  static Array(inner: BorshSchema<number, "i16">, length: number): BorshSchema<Int16Array>
+  static Array(inner: BorshSchema<number, "i32">, length: number): BorshSchema<Int32Array>
+  static Array(inner: BorshSchema<bigint, "u64">, length: number): BorshSchema<BigUint64Array>
+  static Array(inner: BorshSchema<bigint, "i64">, length: number): BorshSchema<BigInt64Array>
+  static Array(inner: BorshSchema<number, "f32">, length: number): BorshSchema<Float32Array>
+  static Array(inner: BorshSchema<number, "f64">, length: number): BorshSchema<Float64Array>
+  static Array<T>(inner: BorshSchema<T>, length: number): BorshSchema<T[]>
+  static Array(inner: BorshSchema<unknown>, length: number): BorshSchema<unknown> {
     return new BorshSchema({ array: { type: inner.schema, len: length } })
   }
 
+  /**
+   * Bytes is a fixed-length byte array such as a hash, public key or
+   * signature (`[u8; 32]`, `[u8; 64]`).
+   */
+  static Bytes(length: number): BorshSchema<Uint8Array> {
+    return BorshSchema.Array(BorshSchema.u8, length)
+  }
+
   /**
    * Vec creates a vector (variable-length array) schema.
    *
    * Overloads:
    *  - For recognized numeric types (which we "brand"), the return type is a typed array.
    *  - Otherwise, it falls back to returning an array of the inner type.
+   *
+   * The decoder recognizes the same element types and reads them straight into
+   * typed arrays. Vecs of u128/i128 can opt into a packed representation with
+   * `{ packed: true }`, which keeps the raw bytes and converts elements to
+   * bigint on access.
    */
   static Vec(inner: BorshSchema<number, "u8">): BorshSchema<Uint8Array>
   static Vec(inner: BorshSchema<number, "u16">): BorshSchema<Uint16Array>
@@ -88,30 +121,23 @@ export class BorshSchema<T, Tag extends string = never> {
   static Vec(inner: BorshSchema<number, "i8">): BorshSchema<Int8Array>
   static Vec(inner: BorshSchema<number, "i16">): BorshSchema<Int16Array>
   static Vec(inner: BorshSchema<number, "i32">): BorshSchema<Int32Array>
+  static Vec(inner: BorshSchema<bigint, "u64">): BorshSchema<BigUint64Array>
   static Vec(inner: BorshSchema<bigint, "i64">): BorshSchema<BigInt64Array>
   static Vec(inner: BorshSchema<number, "f32">): BorshSchema<Float32Array>
   static Vec(inner: BorshSchema<number, "f64">): BorshSchema<Float64Array>
+  static Vec(
+    inner: BorshSchema<bigint, "u128">,
+    options: { packed: true },
+  ): BorshSchema<BigUint128Array>
+  static Vec(
+    inner: BorshSchema<bigint, "i128">,
+    options: { packed: true },
+  ): BorshSchema<BigInt128Array>
   static Vec<T>(inner: BorshSchema<T>): BorshSchema<T[]>
-  static Vec(inner: BorshSchema<unknown, string> | BorshSchema<unknown>): BorshSchema<unknown> {
-    let typedArrayType: TypedArrayType | undefined
-    if (typeof inner.schema === "string") {
-      switch (inner.schema) {
-        case "u8":
-        case "u16":
-        case "u32":
-        case "i8":
-        case "i16":
-        case "i32":
-        case "i64":
-        case "f32":
-        case "f64":
-          typedArrayType = inner.schema
-          break
-        default:
-          break
-      }
-    }
-    return new BorshSchema({ array: { type: inner.schema } }, typedArrayType)
+  static Vec(inner: BorshSchema<unknown>, options?: { packed: boolean }): BorshSchema<unknown> {
+    return new BorshSchema({
+      array: options?.packed ? { type: inner.schema, packed: true } : { type: inner.schema },
+    })
   }
 
   static HashSet<T extends BorshSchema<unknown, string>>(inner: T): BorshSchema<Set<TypeOf<T>>> {
@@ -125,54 +151,567 @@ export class BorshSchema<T, Tag extends string = never> {
     return new BorshSchema({ map: { key: key.schema, value: value.schema } })
   }
 
-  static Struct<T extends Record<string, BorshSchema<unknown, string>>>(
-    fields: T,
-  ): BorshSchema<{ [K in keyof T]: TypeOf<T[K]> }> {
-    return new BorshSchema({
-      struct: Object.fromEntries(
-        Object.entries(fields).map(([key, schema]) => [key, schema.schema]),
-      ),
+  /**
+   * Record is a `HashMap<String, V>` represented as a plain object instead of
+   * a Map, e.g. for JSON. The bytes, including the sorted key order, are the
+   * same as HashMap's.
+   */
+  static Record<V extends BorshSchema<unknown, string>>(
+    key: BorshSchema<string, string>,
+    value: V,
+  ): BorshSchema<Record<string, TypeOf<V>>> {
+    const map = new BorshSchema<Map<string, TypeOf<V>>>({
+      map: { key: key.schema, value: value.schema },
+      record: true,
     })
+    return map.transform(
+      (entries) => Object.fromEntries(entries),
+      (record) => {
+        // Arrays and other objects would be encoded as their own properties
+        if (!isPlainObject(record)) {
+          throw new TypeError(`Expected a plain object not ${formatValue(record)}`)
+        }
+        return new Map(Object.entries(record))
+      },
+    )
+  }
+
+  /**
+   * Struct fields are encoded in the order they are declared. The returned
+   * schema can derive other structs with `extend`, `pick`, `omit` and so on.
+   *
+   * JS objects list integer-like keys such as "0" first, whatever order they
+   * were written in. Pass `[name, schema]` pairs to keep such fields in order:
+   *
+   *   b.Struct([["b", b.u8()], ["1", b.u32()]])
+   */
+  static Struct<const T extends StructEntries>(fields: T): BorshStructSchema<FieldsOf<T>>
+  static Struct<T extends StructFields>(fields: T): BorshStructSchema<T>
+  static Struct(fields: StructEntries | StructFields): BorshStructSchema<StructFields> {
+    let entries: StructEntries
+    if (isStructEntries(fields)) {
+      entries = fields
+    } else {
+      warnOnReorderedFields(Object.keys(fields))
+      entries = Object.entries(fields)
+    }
+    return new BorshStructSchema(
+      createStruct(entries.map(([key, schema]) => [key, schema.schema])),
+      entries,
+    )
   }
 
+  /**
+   * Tuple matches Rust tuples and tuple structs, e.g. `(u32, String)` or
+   * `struct Pair(u8, u8)`, and is represented as a JS array.
+   */
+  static Tuple<T extends BorshSchema<unknown, string>[]>(...elements: T): BorshSchema<TupleOf<T>> {
+    return new BorshSchema({ tuple: elements.map((element) => element.schema) })
+  }
+
+  /**
+   * Enum values are `{ Variant: payload }` objects by default. Pass a `tag` to
+   * use a discriminated union instead, e.g. `{ kind: "Circle", radius: 3 }`.
+   * Tagged variants must be Structs or units. Both produce the same bytes.
+   */
+  static Enum<T extends Record<string, BorshSchema<object, string>>, const K extends string>(
+    variants: T,
+    options: { tag: K },
+  ): BorshEnumSchema<TaggedEnumVariant<T, K>, T, K>
   static Enum<T extends Record<string, BorshSchema<unknown, string>>>(
     variants: T,
-  ): BorshSchema<EnumVariant<T>> {
+  ): BorshEnumSchema<EnumVariant<T>, T>
+  static Enum(
+    variants: Record<string, BorshSchema<unknown, string>>,
+    options?: { tag: string },
+  ): BorshSchema<unknown> {
+    const tag = options?.tag
+    if (tag !== undefined) {
+      for (const [variantName, { schema }] of Object.entries(variants)) {
+        if (typeof schema !== "object" || !("struct" in schema)) {
+          throw new TypeError(`Variant ${variantName} must be a Struct or unit to use a tag`)
+        }
+        if (tag in schema.struct) {
+          throw new Error(`Variant ${variantName} has a field with the same name as the tag ${tag}`)
+        }
+      }
+    }
+
+    return new BorshEnumSchema(
+      {
+        enum: Object.entries(variants).map(([variantName, schema]) => ({
+          struct: { [variantName]: schema.schema },
+        })),
+        ...(tag === undefined ? {} : { tag }),
+      },
+      Object.keys(variants),
+      tag,
+    )
+  }
+
+  /**
+   * NativeEnum is a C-like enum whose values are plain string literals instead
+   * of `{ Variant: {} }` objects. It has the same wire format as an Enum of
+   * unit variants.
+   *
+   * Pass an object to use explicit discriminants, matching Rust's
+   * `#[borsh(use_discriminant = true)]`:
+   *
+   *   b.NativeEnum(["Pending", "Fulfilled", "Rejected"])
+   *   b.NativeEnum({ A: 0, B: 5 })
+   */
+  static NativeEnum<const V extends readonly string[]>(variants: V): BorshSchema<V[number]>
+  static NativeEnum<const V extends Record<string, number>>(
+    variants: V,
+  ): BorshSchema<keyof V & string>
+  static NativeEnum(variants: readonly string[] | Record<string, number>): BorshSchema<string> {
+    const entries = Array.isArray(variants)
+      ? variants.map((name, index) => [name, index] as const)
+      : Object.entries(variants)
+
+    const seen = new Set<number>()
+    for (const [name, discriminant] of entries) {
+      if (!Number.isInteger(discriminant) || discriminant < 0 || discriminant > 255) {
+        throw new RangeError(`Discriminant of ${name} must be an integer from 0 to 255`)
+      }
+      if (seen.has(discriminant)) {
+        throw new Error(`Duplicate discriminant ${discriminant} for ${name}`)
+      }
+      seen.add(discriminant)
+    }
+
     return new BorshSchema({
-      enum: Object.entries(variants).map(([variantName, schema]) => ({
-        struct: { [variantName]: schema.schema },
-      })),
+      nativeEnum: {
+        variants: entries.map(([name]) => name),
+        discriminants: entries.map(([, discriminant]) => discriminant),
+      },
     })
   }
 
+  /**
+   * Lazy defers resolving a schema until it is used, so a schema can refer to
+   * itself. Recursive types need an explicit annotation:
+   *
+   *   type Expr = { Lit: bigint } | { Add: { left: Expr; right: Expr } }
+   *   const expr: BorshSchema<Expr> = b.Enum({
+   *     Lit: b.u64(),
+   *     Add: b.Struct({ left: b.lazy(() => expr), right: b.lazy(() => expr) }),
+   *   })
+   *
+   * Values nested deeper than `maxDepth` lazy levels are rejected, which
+   * protects against unbounded recursion on hostile input.
+   */
+  static Lazy<T>(getter: () => BorshSchema<T, string>, maxDepth = 256): BorshSchema<T> {
+    let resolved: Schema | undefined
+    return new BorshSchema({
+      lazy: {
+        resolve: () => {
+          resolved ??= getter().schema
+          return resolved
+        },
+        maxDepth,
+      },
+    })
+  }
+
+  /**
+   * Builds the schema of a type declared in a NEAR ABI, or in a single schema
+   * container. The type is only known at runtime, e.g. when exploring the
+   * state of an arbitrary contract.
+   *
+   * Vecs of numeric primitives decode to typed arrays as usual, fieldless
+   * enums become NativeEnums and recursive types are read lazily.
+   */
+  static fromAbi(abi: BorshSchemaContainer | NearAbi, typeName: string): BorshSchema<unknown> {
+    return new BorshSchema(new AbiReader(collectDefinitions(abi)).read(typeName))
+  }
+
+  /**
+   * Builds a schema from a borsh-rs `BorshSchemaContainer` in its serialized
+   * form, e.g. from `serializeSchema()` or Rust's
+   * `borsh::to_vec(&schema_container_of::<T>())`.
+   */
+  static deserializeSchema(bytes: Uint8Array): BorshSchema<unknown> {
+    const container = decodeContainer(new BorshDecoder(bytes))
+    return BorshSchema.fromAbi(container, container.declaration)
+  }
+
+  /**
+   * Reads a value written by `serializeWithSchema()` or Rust's
+   * `borsh::try_to_vec_with_schema`, without knowing its type in advance.
+   */
+  static deserializeWithSchema(bytes: Uint8Array): {
+    schema: BorshSchema<unknown>
+    value: unknown
+  } {
+    const decoder = new BorshDecoder(bytes)
+    const container = decodeContainer(decoder)
+    const schema = BorshSchema.fromAbi(container, container.declaration)
+    return { schema, value: decoder.decode(schema.schema) }
+  }
+
+  /**
+   * Adds a check that runs on both serialize and deserialize.
+   */
+  refine(check: (value: T) => boolean, message = "Invalid value"): BorshSchema<T> {
+    return new BorshSchema({
+      refine: { type: this.schema, check: check as (value: unknown) => boolean, message },
+    })
+  }
+
+  /**
+   * Maps the decoded value to another representation and back, e.g. a u64
+   * timestamp to a Date.
+   */
+  transform<U>(decode: (value: T) => U, encode: (value: U) => T): BorshSchema<U> {
+    return new BorshSchema({
+      transform: {
+        type: this.schema,
+        decode: decode as (value: unknown) => unknown,
+        encode: encode as (value: unknown) => unknown,
+      },
+    })
+  }
+
+  /**
+   * Keeps this schema's wire format but also requires values to match `next`,
+   * narrowing the type to its type.
+   */
+  pipe<U extends T>(next: BorshSchema<U, string>): BorshSchema<U> {
+    return new BorshSchema({ pipe: { type: this.schema, next: next.schema } })
+  }
+
   /**
    * Serializes the given value into a Buffer.
+   *
+   * HashMap and HashSet entries are sorted by key the way borsh-rs sorts them,
+   * so equal values always serialize to the same bytes.
    */
   serialize(value: T): Buffer {
-    return Buffer.from(thirdPartySerialize(this.schema, value))
+    const bytes = new BorshEncoder().encode(value, this.schema)
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  /**
+   * Writes the value into `target` at `offset` and returns the offset right
+   * after it, e.g. to pack many values into one preallocated buffer. Throws a
+   * RangeError when the value doesn't fit, see `byteLength()`.
+   */
+  serializeInto(value: T, target: Uint8Array, offset = 0): number {
+    const encoder = new BorshEncoder(target, offset)
+    encoder.encode(value, this.schema)
+    return encoder.position
+  }
+
+  /**
+   * Number of bytes the value takes up once serialized, computed without
+   * encoding it.
+   */
+  byteLength(value: T): number {
+    return new ByteLengthCounter().count(value, this.schema)
+  }
+
+  /**
+   * Checks that an untrusted value matches the schema, including the bounds of
+   * every integer type, without throwing.
+   */
+  validate(value: unknown): SafeResult<T> {
+    const issues = new SchemaValidator().validate(value, this.schema)
+    if (issues.length > 0) {
+      return { success: false, error: new BorshValidationError(issues) }
+    }
+    return { success: true, data: value as T }
+  }
+
+  /**
+   * Validates the value first and only serializes it if it matches the schema.
+   */
+  safeSerialize(value: unknown): SafeResult<Buffer> {
+    const result = this.validate(value)
+    if (!result.success) return result
+    return { success: true, data: this.serialize(result.data) }
+  }
+
+  /**
+   * Describes the structure of the schema, e.g. for documentation generators
+   * or form builders. The description is a plain discriminated union on `kind`
+   * and is part of the public API.
+   */
+  describe(): SchemaDescription {
+    return describeSchema(this.schema)
+  }
+
+  /**
+   * Describes the schema in the borsh-rs schema container format used by the
+   * `borsh_schema` of a NEAR ABI. Structs and enums are named after `name` and
+   * their position, e.g. `Game`, `GamePlayers` and `GameStatusOver`.
+   */
+  toAbi(name = "Root"): BorshSchemaContainer {
+    return new AbiBuilder().build(this.schema, name)
+  }
+
+  /**
+   * Serializes the `toAbi()` container of this schema in the binary format of
+   * borsh-rs's `BorshSchemaContainer`.
+   */
+  serializeSchema(name = "Root"): Buffer {
+    const bytes = encodeContainer(new BorshEncoder(), this.toAbi(name))
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  /**
+   * Serializes the schema container followed by the value, like Rust's
+   * `borsh::try_to_vec_with_schema`, so the data can be read back with
+   * `BorshSchema.deserializeWithSchema()` alone.
+   */
+  serializeWithSchema(value: T, name = "Root"): Buffer {
+    const encoder = new BorshEncoder()
+    encodeContainer(encoder, this.toAbi(name))
+    // The encoder keeps writing after the container and returns every byte
+    const bytes = encoder.encode(value, this.schema)
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  /**
+   * Describes the values of this schema as a JSON Schema (draft 7) document,
+   * with the same definition names as `toAbi()`.
+   */
+  toJsonSchema(name = "Root"): JsonSchema {
+    return new JsonSchemaBuilder().build(this.schema, name)
   }
 
   /**
    * Deserializes the given buffer.
    *
-   * First, the third-party deserializer decodes the buffer.
-   * Then, we visit each node in the schema tree to convert arrays
-   * into their appropriate typed arrays based on the schema definition.
+   * The decoder reads the final shape directly, including typed arrays for
+   * Vecs and arrays of numeric primitives. Bytes after the value are ignored
+   * unless `strict` is set, like Rust's `try_from_slice` does. With
+   * `canonical`, HashMaps and HashSets must be sorted the way `serialize()`
+   * sorts them, e.g. to check data from an untrusted signer.
+   */
+  deserialize(buffer: Uint8Array, options: DecodeOptions = {}): T {
+    const decoder = new BorshDecoder(buffer, 0, [], options)
+    const value = decoder.decode(this.schema) as T
+    if (options.strict) decoder.end()
+    return value
+  }
+
+  /**
+   * Gives access to the value in a buffer without decoding all of it. Struct
+   * and tuple fields are decoded when first read, Vecs become VecViews and
+   * maps become MapViews whose values are decoded on lookup:
+   *
+   *   const state = stateSchema.view(buffer)
+   *   state.accounts.get("alice")?.balance
+   *
+   * Vecs and arrays of numeric primitives are typed arrays sharing the
+   * buffer's memory, as long as their elements are aligned in it. Views read
+   * the buffer when accessed, so it must not change while they are in use,
+   * and decode errors are thrown by the access that hits them.
+   */
+  view<S extends BorshSchema<unknown, string>>(this: S, buffer: Uint8Array): BorshView<TypeOf<S>> {
+    // `this` keeps the view type from making BorshSchema invariant in T
+    return createView(buffer, 0, this.schema) as BorshView<TypeOf<S>>
+  }
+
+  /**
+   * Decodes a value that starts at `offset` and may be followed by other
+   * data, e.g. a field embedded in a larger format. Returns the number of
+   * bytes the value took up, so the next value can be read after it.
+   *
+   * Offsets in decode errors are relative to the start of the buffer.
    */
-  deserialize(buffer: Uint8Array): T {
-    const result = thirdPartyDeserialize(this.schema, buffer)
-    return this.visitor.visit(
-      result,
-      this.schema,
-      this._typedArrayType ? { typedArrayType: this._typedArrayType } : undefined,
-    ) as T
+  decodeFrom(
+    buffer: Uint8Array,
+    offset = 0,
+    options: Omit<DecodeOptions, "strict"> = {},
+  ): { value: T; bytesRead: number } {
+    const decoder = new BorshDecoder(buffer, offset, [], options)
+    const value = decoder.decode(this.schema) as T
+    return { value, bytesRead: decoder.position - offset }
+  }
+
+  /**
+   * Decodes back-to-back values from an async iterable of chunks or a
+   * `ReadableStream`, yielding each value as soon as its bytes have arrived:
+   *
+   *   for await (const record of schema.decodeStream(socket)) { ... }
+   *
+   * With `{ framing: "length-prefixed" }` every value is preceded by its byte
+   * length as a u32, and must take up exactly that many bytes.
+   */
+  decodeStream(
+    source: ByteSource,
+    options?: DecodeStreamOptions,
+  ): AsyncGenerator<T, void, undefined> {
+    return decodeStream(source, this.schema, options) as AsyncGenerator<T, void, undefined>
   }
 }
 
+/**
+ * Schema returned by `BorshSchema.Struct`, which can derive new structs from
+ * its fields. Derived structs keep the order of the fields they share with
+ * this one, so they only match a Rust struct declared in that order.
+ */
+export class BorshStructSchema<F extends StructFields> extends BorshSchema<StructInput<F>> {
+  /**
+   * The field schemas by name. Integer-like names are listed first like in
+   * any JS object, whatever their position on the wire.
+   */
+  readonly shape: F
+
+  // Fields in wire order
+  private readonly entries: StructEntries
+
+  constructor(schema: Schema, entries: StructEntries) {
+    super(schema)
+    this.entries = entries
+    this.shape = Object.fromEntries(entries) as F
+  }
+
+  /**
+   * Adds fields after the existing ones. A field that already exists keeps
+   * its position but takes the new schema.
+   */
+  extend<E extends StructFields>(fields: E): BorshStructSchema<Extend<F, E>> {
+    warnOnReorderedFields(Object.keys(fields))
+    return this.extendWith(Object.entries(fields)) as BorshStructSchema<Extend<F, E>>
+  }
+
+  /**
+   * Adds the fields of another struct, like `extend(other.shape)` but in the
+   * other struct's field order.
+   */
+  merge<E extends StructFields>(other: BorshStructSchema<E>): BorshStructSchema<Extend<F, E>> {
+    return this.extendWith(other.entries) as BorshStructSchema<Extend<F, E>>
+  }
+
+  /**
+   * Keeps only the given fields.
+   */
+  pick<const K extends keyof F & string>(keys: readonly K[]): BorshStructSchema<Pick<F, K>> {
+    const entries = this.entries.filter(([key]) => keys.includes(key as K))
+    return BorshSchema.Struct(entries) as BorshStructSchema<Pick<F, K>>
+  }
+
+  /**
+   * Drops the given fields.
+   */
+  omit<const K extends keyof F & string>(keys: readonly K[]): BorshStructSchema<Omit<F, K>> {
+    const entries = this.entries.filter(([key]) => !keys.includes(key as K))
+    return BorshSchema.Struct(entries) as BorshStructSchema<Omit<F, K>>
+  }
+
+  /**
+   * Wraps every field in an Option, e.g. for a message that updates only some
+   * fields. Unlike Zod's `partial`, this changes the bytes: each field gets an
+   * Option tag, and missing fields are `null`.
+   */
+  partial(): BorshStructSchema<PartialFields<F>> {
+    const entries = this.entries.map(([key, schema]) => [key, BorshSchema.Option(schema)] as const)
+    return BorshSchema.Struct(entries) as BorshStructSchema<PartialFields<F>>
+  }
+
+  private extendWith(fields: StructEntries): BorshStructSchema<StructFields> {
+    const replacements = new Map(fields)
+    const entries = [
+      ...this.entries.map(([key, schema]) => [key, replacements.get(key) ?? schema] as const),
+      ...fields.filter(([key]) => !Object.hasOwn(this.shape, key)),
+    ]
+    return BorshSchema.Struct(entries)
+  }
+}
+
+/**
+ * Schema returned by `BorshSchema.Enum`, with helpers derived from its variant
+ * list.
+ */
+export class BorshEnumSchema<
+  T,
+  V extends EnumVariants,
+  K extends string | undefined = undefined,
+> extends BorshSchema<T> {
+  /**
+   * Constructors for each variant, e.g. `shape.variants.Circle({ radius: 3 })`.
+   */
+  readonly variants: VariantConstructors<T, V, K>
+
+  private readonly variantNames: string[]
+  private readonly tag: K
+
+  constructor(schema: Schema, variantNames: string[], tag: K) {
+    super(schema)
+    this.variantNames = variantNames
+    this.tag = tag
+    this.variants = Object.fromEntries(
+      variantNames.map((variantName) => [
+        variantName,
+        (payload: object = {}) =>
+          tag === undefined ? { [variantName]: payload } : { [tag]: variantName, ...payload },
+      ]),
+    ) as VariantConstructors<T, V, K>
+  }
+
+  /**
+   * Name of the variant a value holds.
+   */
+  variantOf(value: T): keyof V & string {
+    const variantName =
+      this.tag === undefined
+        ? Object.keys(value as object)[0]
+        : (value as Record<string, unknown>)[this.tag]
+    if (!this.variantNames.includes(variantName as string)) {
+      throw new Error(
+        `Unknown enum variant ${variantName}, expected one of ${this.variantNames.join(", ")}`,
+      )
+    }
+    return variantName as keyof V & string
+  }
+
+  /**
+   * Calls the handler for the variant a value holds. Every variant must have a
+   * handler, so adding a variant to the schema is a compile error until it is
+   * handled.
+   */
+  match<R>(value: T, handlers: MatchHandlers<T, V, K, R>): R {
+    const variantName = this.variantOf(value)
+    const handler = handlers[variantName] as (value: unknown) => R
+    return handler(this.tag === undefined ? (value as Record<string, unknown>)[variantName] : value)
+  }
+}
+
+/**
+ * The member of an enum's value type that holds variant `P`.
+ */
+export type VariantValue<T, P extends PropertyKey, K extends string | undefined> = Extract<
+  T,
+  K extends string ? { [KK in K]: P } : { [KK in P]: unknown }
+>
+
+export type VariantConstructors<T, V extends EnumVariants, K extends string | undefined> = {
+  [P in keyof V]: TypeOf<V[P]> extends Unit
+    ? () => VariantValue<T, P, K>
+    : (payload: TypeOf<V[P]>) => VariantValue<T, P, K>
+}
+
+/**
+ * Handlers receive the variant payload, or the whole value for tagged enums.
+ */
+export type MatchHandlers<T, V extends EnumVariants, K extends string | undefined, R> = {
+  [P in keyof V]: (value: K extends string ? VariantValue<T, P, K> : TypeOf<V[P]>) => R
+}
+
 export type StructInput<T extends Record<string, BorshSchema<unknown>>> = {
   [K in keyof T]: TypeOf<T[K]>
 }
 
+/**
+ * Helper type mapping a tuple of schemas to a tuple of their types.
+ */
+export type TupleOf<T extends BorshSchema<unknown, string>[]> = {
+  [K in keyof T]: TypeOf<T[K]>
+}
+
 /**
  * Helper type for enum variant discrimination.
  */
@@ -182,13 +721,56 @@ export type EnumVariant<T extends Record<string, BorshSchema<unknown, string>>>
   }
 }[keyof T]
 
+/**
+ * Helper type for the tagged enum representation, a discriminated union on `K`.
+ */
+export type TaggedEnumVariant<
+  T extends Record<string, BorshSchema<object, string>>,
+  K extends string,
+> = {
+  [V in keyof T]: TypeOf<T[V]> extends Unit
+    ? { [P in K]: V }
+    : Flatten<{ [P in K]: V } & TypeOf<T[V]>>
+}[keyof T]
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+function isStructEntries(fields: StructEntries | StructFields): fields is StructEntries {
+  return Array.isArray(fields)
+}
+
+// Merges an intersection into a single object type
+type Flatten<T> = { [P in keyof T]: T[P] }
+
+/**
+ * Fields given as `[name, schema]` pairs, by name.
+ */
+export type FieldsOf<T extends StructEntries> = { [E in T[number] as E[0]]: E[1] }
+
+/**
+ * Fields of `F` with those of `E` added, or replaced when both have them.
+ */
+export type Extend<F extends StructFields, E extends StructFields> = Flatten<Omit<F, keyof E> & E>
+
+/**
+ * Fields of `F` wrapped in Options.
+ */
+export type PartialFields<F extends StructFields> = {
+  [K in keyof F]: BorshSchema<TypeOf<F[K]> | null>
+}
+
 /**
  * Unit is defined as an empty record.
  */
 export type Unit = Record<string, never>
 
 export type StructFields = Record<string, BorshSchema<unknown>>
-export type EnumVariants = Record<string, BorshSchema<unknown>>
+export type StructEntries = readonly (readonly [string, BorshSchema<unknown>])[]
+export type EnumVariants = Record<string, BorshSchema<unknown, string>>
 
 // Re-export the TypeOf helper as "infer" if desired.
 export type { TypeOf as infer }
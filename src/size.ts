@@ -0,0 +1,198 @@
+import { PACKED_ARRAYS, TYPED_ARRAYS, getPackedArrayType, getTypedArrayType } from "./arrays"
+import { structFields } from "./fields"
+import type {
+  ArrayType,
+  BoolType,
+  EnumType,
+  IntegerType,
+  LazyType,
+  MapType,
+  Schema,
+  SetType,
+  StructType,
+} from "./types"
+
+// Encoded size of the fixed-size primitives
+const SIZES: Record<IntegerType | BoolType, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  u128: 16,
+  i8: 1,
+  i16: 2,
+  i32: 4,
+  i64: 8,
+  i128: 16,
+  f32: 4,
+  f64: 8,
+  bool: 1,
+}
+
+const fixedSizes = new WeakMap<object, number | undefined>()
+
+/**
+ * Number of bytes every value of a schema takes up, or undefined when it
+ * depends on the value.
+ */
+export function fixedSize(schema: Schema): number | undefined {
+  if (typeof schema === "string") return schema === "string" ? undefined : SIZES[schema]
+  if (fixedSizes.has(schema)) return fixedSizes.get(schema)
+
+  let size: number | undefined
+  if ("nativeEnum" in schema) size = 1
+  else if ("array" in schema) {
+    const element = fixedSize(schema.array.type)
+    const { len } = schema.array
+    size = len === undefined || element === undefined ? undefined : len * element
+  } else if ("struct" in schema || "tuple" in schema) {
+    const elements = "struct" in schema ? Object.values(schema.struct) : schema.tuple
+    size = 0
+    for (const element of elements) {
+      const elementSize = fixedSize(element)
+      if (elementSize === undefined) {
+        size = undefined
+        break
+      }
+      size += elementSize
+    }
+  } else if ("refine" in schema) size = fixedSize(schema.refine.type)
+  else if ("transform" in schema) size = fixedSize(schema.transform.type)
+  else if ("pipe" in schema) size = fixedSize(schema.pipe.type)
+  // Options, enums and collections vary, and lazy schemas may be recursive
+
+  fixedSizes.set(schema, size)
+  return size
+}
+
+/**
+ * Number of bytes a string takes up in UTF-8, without encoding it. Lone
+ * surrogates count as U+FFFD, like TextEncoder writes them.
+ */
+export function utf8Length(string: string): number {
+  let length = string.length
+  for (let i = 0; i < string.length; i++) {
+    const code = string.charCodeAt(i)
+    if (code < 0x80) continue
+    if (code < 0x800) {
+      length += 1
+    } else if (code >= 0xd800 && code <= 0xdbff && isLowSurrogate(string.charCodeAt(i + 1))) {
+      // A surrogate pair is 4 bytes for 2 code units
+      length += 2
+      i++
+    } else {
+      length += 2
+    }
+  }
+  return length
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff
+}
+
+/**
+ * ByteLengthCounter walks a schema tree like BorshEncoder does, but only adds
+ * up the number of bytes each value would take. Values are expected to match
+ * the schema: checks such as refinements are left to the encoder.
+ */
+export class ByteLengthCounter {
+  // Number of lazy schemas currently being walked
+  private depth = 0
+
+  count(value: unknown, schema: Schema): number {
+    if (typeof schema === "string") {
+      return schema === "string" ? 4 + utf8Length(value as string) : SIZES[schema]
+    }
+
+    if ("option" in schema) {
+      return value === null || value === undefined ? 1 : 1 + this.count(value, schema.option)
+    }
+    if ("enum" in schema) return this.countEnum(value, schema)
+    if ("nativeEnum" in schema) return 1
+    if ("array" in schema) return this.countArray(value, schema)
+    if ("set" in schema) return this.countSet(value, schema)
+    if ("map" in schema) return this.countMap(value, schema)
+    if ("struct" in schema) return this.countStruct(value, schema)
+    if ("tuple" in schema) {
+      const items = value as unknown[]
+      return schema.tuple.reduce(
+        (length, element, index) => length + this.count(items[index], element),
+        0,
+      )
+    }
+    if ("refine" in schema) return this.count(value, schema.refine.type)
+    if ("transform" in schema) {
+      return this.count(schema.transform.encode(value), schema.transform.type)
+    }
+    if ("pipe" in schema) return this.count(value, schema.pipe.type)
+    return this.countLazy(value, schema)
+  }
+
+  private countEnum(value: unknown, schema: EnumType): number {
+    const variantName =
+      schema.tag === undefined
+        ? Object.keys(value as object)[0]
+        : (value as Record<string, unknown>)[schema.tag]
+    const variant = schema.enum.find((variant) => Object.keys(variant.struct)[0] === variantName)
+    if (!variant) throw new Error(`Enum key (${variantName}) not found in enum schema`)
+
+    // Tagged variants keep their fields next to the tag
+    const payload =
+      schema.tag === undefined ? (value as Record<string, unknown>)[variantName as string] : value
+    return 1 + this.count(payload, variant.struct[variantName as string])
+  }
+
+  private countArray(value: unknown, schema: ArrayType): number {
+    const prefix = schema.array.len === undefined ? 4 : 0
+    if (value instanceof ArrayBuffer) return prefix + value.byteLength
+
+    const packedArrayType = getPackedArrayType(schema)
+    if (packedArrayType && value instanceof PACKED_ARRAYS[packedArrayType]) {
+      return prefix + value.bytes.length
+    }
+    const items = value as ArrayLike<unknown>
+    const typedArrayType = getTypedArrayType(schema)
+    if (typedArrayType) {
+      return prefix + items.length * TYPED_ARRAYS[typedArrayType].BYTES_PER_ELEMENT
+    }
+
+    let length = prefix
+    for (let i = 0; i < items.length; i++) {
+      length += this.count(items[i], schema.array.type)
+    }
+    return length
+  }
+
+  private countSet(value: unknown, schema: SetType): number {
+    const values = value instanceof Set ? Array.from(value) : Object.values(value as object)
+    return values.reduce((length: number, item) => length + this.count(item, schema.set), 4)
+  }
+
+  private countMap(value: unknown, schema: MapType): number {
+    const entries =
+      value instanceof Map ? Array.from(value.entries()) : Object.entries(value as object)
+    return entries.reduce(
+      (length: number, [key, item]) =>
+        length + this.count(key, schema.map.key) + this.count(item, schema.map.value),
+      4,
+    )
+  }
+
+  private countStruct(value: unknown, schema: StructType): number {
+    let length = 0
+    for (const [key, field] of structFields(schema)) {
+      length += this.count((value as Record<string, unknown>)[key], field)
+    }
+    return length
+  }
+
+  private countLazy(value: unknown, schema: LazyType): number {
+    if (++this.depth > schema.lazy.maxDepth) {
+      throw new Error(`Maximum recursion depth of ${schema.lazy.maxDepth} exceeded`)
+    }
+    const length = this.count(value, schema.lazy.resolve())
+    this.depth--
+    return length
+  }
+}
@@ -0,0 +1,118 @@
+import { BorshDecoder } from "./decoder"
+import type { Schema } from "./types"
+
+/**
+ * Chunks of bytes, e.g. a Node.js stream, a socket or `fetch().body`.
+ */
+export type ByteSource = AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>
+
+export interface DecodeStreamOptions {
+  /**
+   * How records are delimited:
+   *  - `"none"`: records follow each other directly (default)
+   *  - `"length-prefixed"`: each record is preceded by its byte length as a u32
+   */
+  framing?: "none" | "length-prefixed"
+}
+
+// Size of the u32 length prefix of framed records
+const PREFIX_SIZE = 4
+
+/**
+ * Decode back-to-back records from a source of chunks, yielding each one as
+ * soon as its last byte arrives. Partial records are kept until the following
+ * chunks complete them.
+ */
+export async function* decodeStream(
+  source: ByteSource,
+  schema: Schema,
+  options: DecodeStreamOptions = {},
+): AsyncGenerator<unknown, void, undefined> {
+  const framed = options.framing === "length-prefixed"
+  const chunks: Uint8Array[] = []
+  let buffered = 0
+  // Don't try again until the bytes the last attempt ran out of have arrived
+  let needed = 1
+
+  for await (const chunk of readChunks(source)) {
+    chunks.push(chunk)
+    buffered += chunk.length
+    if (buffered < needed) continue
+
+    let bytes = concat(chunks)
+    chunks.length = 0
+    for (;;) {
+      const record = framed ? decodeFrame(bytes, schema) : decodeRecord(bytes, schema)
+      if ("required" in record) {
+        needed = record.required
+        break
+      }
+      yield record.value
+      bytes = bytes.subarray(record.length)
+    }
+    chunks.push(bytes)
+    buffered = bytes.length
+  }
+
+  if (buffered > 0) {
+    // Report the truncated record like deserialize() would. A frame has the
+    // same layout as a Vec<u8>.
+    new BorshDecoder(concat(chunks)).decode(framed ? { array: { type: "u8" } } : schema)
+  }
+}
+
+type DecodedRecord = { value: unknown; length: number } | { required: number }
+
+function decodeRecord(bytes: Uint8Array, schema: Schema): DecodedRecord {
+  const decoder = new BorshDecoder(bytes)
+  try {
+    const value = decoder.decode(schema)
+    if (decoder.position === 0) {
+      throw new Error("Records of a schema that takes up no bytes cannot be read from a stream")
+    }
+    return { value, length: decoder.position }
+  } catch (error) {
+    if (decoder.requiredLength === undefined) throw error
+    return { required: decoder.requiredLength }
+  }
+}
+
+function decodeFrame(bytes: Uint8Array, schema: Schema): DecodedRecord {
+  if (bytes.length < PREFIX_SIZE) return { required: PREFIX_SIZE }
+  const length = new BorshDecoder(bytes).decode("u32") as number
+  if (bytes.length < PREFIX_SIZE + length) return { required: PREFIX_SIZE + length }
+
+  const decoder = new BorshDecoder(bytes.subarray(PREFIX_SIZE, PREFIX_SIZE + length))
+  const value = decoder.decode(schema)
+  decoder.end()
+  return { value, length: PREFIX_SIZE + length }
+}
+
+async function* readChunks(source: ByteSource): AsyncIterable<Uint8Array> {
+  if (!("getReader" in source)) {
+    yield* source
+    return
+  }
+  // Not every runtime makes ReadableStream async iterable
+  const reader = source.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0]
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
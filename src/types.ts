@@ -0,0 +1,140 @@
+/**
+ * Internal schema representation.
+ *
+ * The shapes mirror the borsh-js schema format so that existing schemas keep
+ * their meaning, but they are owned by borsher and interpreted only by our
+ * own encoder and decoder.
+ */
+
+export type IntegerType =
+  | "u8"
+  | "u16"
+  | "u32"
+  | "u64"
+  | "u128"
+  | "i8"
+  | "i16"
+  | "i32"
+  | "i64"
+  | "i128"
+  | "f32"
+  | "f64"
+
+// Integer types small enough to be represented as a JS number
+export type NumberType = Exclude<IntegerType, "u64" | "u128" | "i64" | "i128">
+
+export type BoolType = "bool"
+export type StringType = "string"
+
+export type OptionType = {
+  option: Schema
+}
+
+export type ArrayType = {
+  array: {
+    type: Schema
+    len?: number
+    // Keep 128-bit integer elements as packed bytes instead of bigint[]
+    packed?: boolean
+  }
+}
+
+export type SetType = {
+  set: Schema
+}
+
+export type MapType = {
+  map: {
+    key: Schema
+    value: Schema
+  }
+  // Set by b.Record, whose string keys are property names in paths
+  record?: true
+}
+
+export type StructType = {
+  struct: { [key: string]: Schema }
+  // Field names in wire order, when it isn't the key order of `struct`
+  fields?: string[]
+}
+
+export type TupleType = {
+  tuple: Schema[]
+}
+
+export type EnumType = {
+  enum: Array<StructType>
+  // Discriminant property of the tagged representation, e.g. `{ kind: "Circle", radius: 3 }`
+  tag?: string
+}
+
+/**
+ * C-like enum represented by its variant names. `discriminants[i]` is the byte
+ * written for `variants[i]`.
+ */
+export type NativeEnumType = {
+  nativeEnum: {
+    variants: string[]
+    discriminants: number[]
+  }
+}
+
+/**
+ * Checks a value on both serialize and deserialize.
+ */
+export type RefineType = {
+  refine: {
+    type: Schema
+    check: (value: unknown) => boolean
+    message: string
+  }
+}
+
+/**
+ * Maps between the wire value of `type` and an application value.
+ */
+export type TransformType = {
+  transform: {
+    type: Schema
+    decode: (value: unknown) => unknown
+    encode: (value: unknown) => unknown
+  }
+}
+
+/**
+ * Encodes with `type` and additionally validates the value against `next`.
+ */
+export type PipeType = {
+  pipe: {
+    type: Schema
+    next: Schema
+  }
+}
+
+/**
+ * Defers building a schema until it is used, which allows recursive schemas.
+ * `maxDepth` bounds how deeply lazy schemas may nest while walking a value.
+ */
+export type LazyType = {
+  lazy: {
+    resolve: () => Schema
+    maxDepth: number
+  }
+}
+
+export type Schema =
+  | IntegerType
+  | BoolType
+  | StringType
+  | OptionType
+  | ArrayType
+  | SetType
+  | MapType
+  | StructType
+  | TupleType
+  | EnumType
+  | NativeEnumType
+  | RefineType
+  | TransformType
+  | PipeType
+  | LazyType
@@ -0,0 +1,343 @@
+import { PACKED_ARRAYS, TYPED_ARRAYS, getPackedArrayType, getTypedArrayType } from "./arrays"
+import {
+  type PathSegment,
+  type ValidationIssue,
+  formatPath,
+  formatSchema,
+  formatValue,
+} from "./errors"
+import { structFields } from "./fields"
+import { compareValues, sortCanonically } from "./ordering"
+import type {
+  ArrayType,
+  EnumType,
+  IntegerType,
+  LazyType,
+  MapType,
+  NativeEnumType,
+  OptionType,
+  RefineType,
+  Schema,
+  SetType,
+  StructType,
+  TransformType,
+  TupleType,
+} from "./types"
+
+/**
+ * Inclusive bounds of every integer type.
+ */
+const INTEGER_BOUNDS: Record<Exclude<IntegerType, "f32" | "f64">, [bigint, bigint]> = {
+  u8: [0n, 2n ** 8n - 1n],
+  u16: [0n, 2n ** 16n - 1n],
+  u32: [0n, 2n ** 32n - 1n],
+  u64: [0n, 2n ** 64n - 1n],
+  u128: [0n, 2n ** 128n - 1n],
+  i8: [-(2n ** 7n), 2n ** 7n - 1n],
+  i16: [-(2n ** 15n), 2n ** 15n - 1n],
+  i32: [-(2n ** 31n), 2n ** 31n - 1n],
+  i64: [-(2n ** 63n), 2n ** 63n - 1n],
+  i128: [-(2n ** 127n), 2n ** 127n - 1n],
+}
+
+/**
+ * SchemaValidator walks a schema tree alongside a value and collects every
+ * mismatch instead of stopping at the first one.
+ */
+export class SchemaValidator {
+  private readonly issues: ValidationIssue[] = []
+  private readonly path: PathSegment[]
+  // Number of lazy schemas currently being validated
+  private depth = 0
+
+  /**
+   * @param path Path of the validated value within a larger value, prefixed to
+   * every issue.
+   */
+  constructor(path: readonly PathSegment[] = []) {
+    this.path = [...path]
+  }
+
+  /**
+   * Validate a value and return all issues found (empty when valid).
+   */
+  validate(value: unknown, schema: Schema): ValidationIssue[] {
+    this.visit(value, schema)
+    return this.issues
+  }
+
+  private visit(value: unknown, schema: Schema): void {
+    if (typeof schema === "string") {
+      if (schema === "string") this.expectType(value, "string", "string")
+      else if (schema === "bool") this.expectType(value, "boolean", "bool")
+      else this.visitInteger(value, schema)
+      return
+    }
+
+    if ("option" in schema) this.visitOption(value, schema)
+    else if ("enum" in schema) this.visitEnum(value, schema)
+    else if ("nativeEnum" in schema) this.visitNativeEnum(value, schema)
+    else if ("array" in schema) this.visitArray(value, schema)
+    else if ("set" in schema) this.visitSet(value, schema)
+    else if ("map" in schema) this.visitMap(value, schema)
+    else if ("struct" in schema) this.visitStruct(value, schema)
+    else if ("tuple" in schema) this.visitTuple(value, schema)
+    else if ("refine" in schema) this.visitRefine(value, schema)
+    else if ("transform" in schema) this.visitTransform(value, schema)
+    else if ("lazy" in schema) this.visitLazy(value, schema)
+    else if ("pipe" in schema) {
+      // Only check the wire format once the value satisfies the target schema
+      const issueCount = this.issues.length
+      this.visit(value, schema.pipe.next)
+      if (this.issues.length === issueCount) this.visit(value, schema.pipe.type)
+    }
+  }
+
+  private visitInteger(value: unknown, schema: IntegerType): void {
+    if (schema === "f32" || schema === "f64") {
+      this.expectType(value, "number", schema)
+      return
+    }
+
+    const [min, max] = INTEGER_BOUNDS[schema]
+    const isBig = max > BigInt(Number.MAX_SAFE_INTEGER)
+    if (isBig ? typeof value !== "bigint" : !Number.isInteger(value)) {
+      this.addIssue(schema, value, `Expected ${isBig ? "bigint" : "integer"}`)
+      return
+    }
+    const n = BigInt(value as number | bigint)
+    if (n < min || n > max) {
+      this.addIssue(schema, value, `Expected ${schema} between ${min} and ${max}`)
+    }
+  }
+
+  private visitOption(value: unknown, schema: OptionType): void {
+    if (value === null || value === undefined) return
+    this.visit(value, schema.option)
+  }
+
+  private visitEnum(value: unknown, schema: EnumType): void {
+    const variantNames = schema.enum.map((variant) => Object.keys(variant.struct)[0])
+    const expected = `enum (${variantNames.join(" | ")})`
+    if (typeof value !== "object" || value === null) {
+      this.addIssue("enum", value, `Expected ${expected}`)
+      return
+    }
+
+    if (schema.tag !== undefined) {
+      this.visitTaggedEnum(value as Record<string, unknown>, schema, schema.tag, variantNames)
+      return
+    }
+
+    const keys = Object.keys(value)
+    const index = keys.length === 1 ? variantNames.indexOf(keys[0]) : -1
+    if (index === -1) {
+      this.addIssue("enum", value, `Expected exactly one variant of ${expected}`)
+      return
+    }
+
+    const variantName = variantNames[index]
+    this.path.push(variantName)
+    this.visit(
+      (value as Record<string, unknown>)[variantName],
+      schema.enum[index].struct[variantName],
+    )
+    this.path.pop()
+  }
+
+  private visitTaggedEnum(
+    value: Record<string, unknown>,
+    schema: EnumType,
+    tag: string,
+    variantNames: string[],
+  ): void {
+    const index = variantNames.indexOf(value[tag] as string)
+    if (index === -1) {
+      this.path.push(tag)
+      this.addIssue(
+        "enum",
+        value[tag],
+        `Expected one of ${variantNames.map((name) => JSON.stringify(name)).join(" | ")}`,
+      )
+      this.path.pop()
+      return
+    }
+
+    const variantName = variantNames[index]
+    this.visit(value, schema.enum[index].struct[variantName])
+  }
+
+  private visitNativeEnum(value: unknown, schema: NativeEnumType): void {
+    const { variants } = schema.nativeEnum
+    if (!variants.includes(value as string)) {
+      this.addIssue(
+        "enum",
+        value,
+        `Expected one of ${variants.map((variant) => JSON.stringify(variant)).join(" | ")}`,
+      )
+    }
+  }
+
+  private visitArray(value: unknown, schema: ArrayType): void {
+    const kind = formatSchema(schema)
+    const typedArrayType = getTypedArrayType(schema)
+    const packedArrayType = getPackedArrayType(schema)
+    const isTypedArray =
+      (typedArrayType && value instanceof TYPED_ARRAYS[typedArrayType]) ||
+      (packedArrayType && value instanceof PACKED_ARRAYS[packedArrayType])
+
+    if (!isTypedArray && !Array.isArray(value)) {
+      this.addIssue(kind, value, `Expected ${typedArrayType ? `${typedArrayType} array` : "array"}`)
+      return
+    }
+    const items = value as ArrayLike<unknown>
+    if (schema.array.len !== undefined && items.length !== schema.array.len) {
+      this.addIssue(kind, value, `Expected array of length ${schema.array.len}`)
+      return
+    }
+    // Typed arrays can only hold in-range values
+    if (isTypedArray) return
+
+    for (let index = 0; index < items.length; index++) {
+      this.path.push(index)
+      this.visit(items[index], schema.array.type)
+      this.path.pop()
+    }
+  }
+
+  private visitSet(value: unknown, schema: SetType): void {
+    if (!(value instanceof Set)) {
+      this.addIssue(formatSchema(schema), value, "Expected Set")
+      return
+    }
+
+    const issueCount = this.issues.length
+    let index = 0
+    for (const item of value) {
+      this.path.push(index++)
+      this.visit(item, schema.set)
+      this.path.pop()
+    }
+    // Only valid elements can be compared
+    if (this.issues.length === issueCount) {
+      this.expectUnique(Array.from(value), schema.set, "element", formatSchema(schema))
+    }
+  }
+
+  private visitMap(value: unknown, schema: MapType): void {
+    if (!(value instanceof Map)) {
+      this.addIssue(formatSchema(schema), value, "Expected Map")
+      return
+    }
+
+    const issueCount = this.issues.length
+    for (const [key, item] of value) {
+      this.visit(key, schema.map.key)
+      this.path.push(schema.record ? String(key) : { key })
+      this.visit(item, schema.map.value)
+      this.path.pop()
+    }
+    if (this.issues.length === issueCount) {
+      this.expectUnique(Array.from(value.keys()), schema.map.key, "key", formatSchema(schema))
+    }
+  }
+
+  /**
+   * Distinct objects can still be equal keys, which the encoder rejects.
+   */
+  private expectUnique(
+    values: unknown[],
+    schema: Schema,
+    kind: "key" | "element",
+    expected: string,
+  ): void {
+    const sorted = sortCanonically(values, schema)
+    for (let i = 1; i < sorted.length; i++) {
+      if (compareValues(sorted[i - 1], sorted[i], schema) === 0) {
+        this.addIssue(expected, sorted[i], `Duplicate ${kind}`)
+      }
+    }
+  }
+
+  private visitStruct(value: unknown, schema: StructType): void {
+    if (typeof value !== "object" || value === null) {
+      this.addIssue("struct", value, "Expected object")
+      return
+    }
+
+    for (const [key, field] of structFields(schema)) {
+      this.path.push(key)
+      this.visit((value as Record<string, unknown>)[key], field)
+      this.path.pop()
+    }
+  }
+
+  private visitTuple(value: unknown, schema: TupleType): void {
+    if (!Array.isArray(value) || value.length !== schema.tuple.length) {
+      this.addIssue(formatSchema(schema), value, `Expected tuple of length ${schema.tuple.length}`)
+      return
+    }
+
+    schema.tuple.forEach((element, index) => {
+      this.path.push(index)
+      this.visit(value[index], element)
+      this.path.pop()
+    })
+  }
+
+  private visitRefine(value: unknown, schema: RefineType): void {
+    const { type, check, message } = schema.refine
+    const issueCount = this.issues.length
+    this.visit(value, type)
+    // Refinements only run on values of the right shape
+    if (this.issues.length === issueCount && !check(value)) {
+      this.issues.push({
+        path: formatPath(this.path),
+        expected: formatSchema(type),
+        received: value,
+        message,
+      })
+    }
+  }
+
+  private visitLazy(value: unknown, schema: LazyType): void {
+    const { resolve, maxDepth } = schema.lazy
+    if (this.depth >= maxDepth) {
+      this.addIssue(formatSchema(schema), value, `Maximum recursion depth of ${maxDepth} exceeded`)
+      return
+    }
+    this.depth++
+    this.visit(value, resolve())
+    this.depth--
+  }
+
+  /**
+   * Validated values are application values, so they are mapped back to their
+   * wire representation before checking them.
+   */
+  private visitTransform(value: unknown, schema: TransformType): void {
+    let encoded: unknown
+    try {
+      encoded = schema.transform.encode(value)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.addIssue(formatSchema(schema.transform.type), value, `Cannot encode value (${message})`)
+      return
+    }
+    this.visit(encoded, schema.transform.type)
+  }
+
+  private expectType(value: unknown, type: "string" | "boolean" | "number", expected: string) {
+    const actual = typeof value
+    if (actual !== type) this.addIssue(expected, value, `Expected ${type}`)
+  }
+
+  private addIssue(expected: string, received: unknown, message: string): void {
+    this.issues.push({
+      path: formatPath(this.path),
+      expected,
+      received,
+      message: `${message}, received ${formatValue(received)}`,
+    })
+  }
+}
@@ -0,0 +1,307 @@
+import {
+  type BigInt128Array,
+  type BigUint128Array,
+  LITTLE_ENDIAN,
+  PACKED_ARRAYS,
+  TYPED_ARRAYS,
+  type TypedArray,
+  getPackedArrayType,
+  getTypedArrayType,
+} from "./arrays"
+import { createMap } from "./collections"
+import { BorshDecoder } from "./decoder"
+import type { PathSegment } from "./errors"
+import { structFields } from "./fields"
+import { fixedSize } from "./size"
+import type { ArrayType, EnumType, MapType, Schema, StructType } from "./types"
+
+type TypedArrayConstructor = {
+  readonly BYTES_PER_ELEMENT: number
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): TypedArray
+}
+
+/**
+ * Type of `BorshSchema.view()`: structs, tuples and enums keep their shape
+ * with read-only fields, Vecs become VecViews and maps become MapViews.
+ */
+export type BorshView<T> = T extends Map<infer K, infer V>
+  ? MapView<K, BorshView<V>>
+  : T extends Set<unknown> | ArrayBufferView | BigUint128Array | BigInt128Array
+    ? T
+    : T extends readonly unknown[]
+      ? number extends T["length"]
+        ? VecView<BorshView<T[number]>>
+        : { readonly [I in keyof T]: BorshView<T[I]> }
+      : T extends object
+        ? { readonly [P in keyof T]: BorshView<T[P]> }
+        : T
+
+/**
+ * Create a view of the value of a schema that starts at `offset`. `path` is
+ * where the value sits in the viewed value, for error messages.
+ *
+ * Primitives, native enums and sets are decoded right away, as are values
+ * under a refine, transform or pipe since those need the whole value.
+ */
+export function createView(
+  bytes: Uint8Array,
+  offset: number,
+  schema: Schema,
+  path: readonly PathSegment[] = [],
+): unknown {
+  if (
+    typeof schema === "string" ||
+    "nativeEnum" in schema ||
+    "set" in schema ||
+    "refine" in schema ||
+    "transform" in schema ||
+    "pipe" in schema
+  ) {
+    return new BorshDecoder(bytes, offset, path).decode(schema)
+  }
+
+  if ("option" in schema) {
+    const tag = new BorshDecoder(bytes, offset, path).decodeTag(schema)
+    return tag === 0 ? null : createView(bytes, offset + 1, schema.option, path)
+  }
+  if ("enum" in schema) return viewEnum(bytes, offset, schema, path)
+  if ("array" in schema) return viewArray(bytes, offset, schema, path)
+  if ("map" in schema) return new MapView(bytes, offset, schema, path)
+  if ("struct" in schema) {
+    return defineFields({}, bytes, offset, structFields(schema), path)
+  }
+  if ("tuple" in schema) {
+    const elements = schema.tuple.map((element, index): [number, Schema] => [index, element])
+    return defineFields([], bytes, offset, elements, path)
+  }
+  return createView(bytes, offset, schema.lazy.resolve(), path)
+}
+
+function viewEnum(
+  bytes: Uint8Array,
+  offset: number,
+  schema: EnumType,
+  path: readonly PathSegment[],
+): object {
+  const variant = schema.enum[new BorshDecoder(bytes, offset, path).decodeTag(schema)].struct
+  const variantName = Object.keys(variant)[0]
+  const payload = variant[variantName]
+
+  if (schema.tag === undefined) {
+    return { [variantName]: createView(bytes, offset + 1, payload, [...path, variantName]) }
+  }
+  // Tagged variants are Structs, whose fields sit next to the tag
+  const fields = structFields(payload as StructType)
+  return defineFields({ [schema.tag]: variantName }, bytes, offset + 1, fields, path)
+}
+
+/**
+ * Typed arrays share the memory of the buffer when their elements are
+ * aligned, and are copied otherwise.
+ */
+function viewArray(
+  bytes: Uint8Array,
+  offset: number,
+  schema: ArrayType,
+  path: readonly PathSegment[],
+): unknown {
+  const decoder = new BorshDecoder(bytes, offset, path)
+  const length = schema.array.len ?? (decoder.decode("u32") as number)
+  const start = decoder.position
+
+  const typedArrayType = getTypedArrayType(schema)
+  if (typedArrayType) {
+    const TypedArray = TYPED_ARRAYS[typedArrayType] as TypedArrayConstructor
+    const byteOffset = bytes.byteOffset + start
+    if (!LITTLE_ENDIAN || byteOffset % TypedArray.BYTES_PER_ELEMENT !== 0) {
+      return new BorshDecoder(bytes, offset, path).decode(schema)
+    }
+    // Check that every element is in the buffer
+    new BorshDecoder(bytes, offset, path).skip(schema)
+    return new TypedArray(bytes.buffer, byteOffset, length)
+  }
+
+  const packedArrayType = getPackedArrayType(schema)
+  if (packedArrayType) {
+    const PackedArray = PACKED_ARRAYS[packedArrayType]
+    new BorshDecoder(bytes, offset, path).skip(schema)
+    return new PackedArray(bytes.subarray(start, start + length * PackedArray.BYTES_PER_ELEMENT))
+  }
+
+  return new VecView(bytes, start, length, schema.array.type, path)
+}
+
+/**
+ * Define a getter for each field that decodes it on first access. Fields are
+ * only located when they, or a field after them, are accessed.
+ */
+function defineFields<T extends object>(
+  target: T,
+  bytes: Uint8Array,
+  offset: number,
+  fields: [string | number, Schema][],
+  path: readonly PathSegment[],
+): T {
+  const offsets = [offset]
+  const offsetOf = (index: number): number => {
+    for (let i = offsets.length; i <= index; i++) {
+      const decoder = new BorshDecoder(bytes, offsets[i - 1], [...path, fields[i - 1][0]])
+      decoder.skip(fields[i - 1][1])
+      offsets.push(decoder.position)
+    }
+    return offsets[index]
+  }
+
+  fields.forEach(([key, schema], index) => {
+    let value: unknown
+    let decoded = false
+    Object.defineProperty(target, key, {
+      enumerable: true,
+      get: () => {
+        if (!decoded) {
+          value = createView(bytes, offsetOf(index), schema, [...path, key])
+          decoded = true
+        }
+        return value
+      },
+    })
+  })
+  return target
+}
+
+/**
+ * Vec whose elements are decoded when accessed.
+ */
+export class VecView<T> implements Iterable<T> {
+  readonly length: number
+
+  private readonly bytes: Uint8Array
+  private readonly element: Schema
+  private readonly path: readonly PathSegment[]
+  private readonly size: number | undefined
+  // Start of each element located so far. Fixed-size elements only need the first.
+  private readonly offsets: number[]
+  private readonly cache: T[] = []
+
+  constructor(
+    bytes: Uint8Array,
+    offset: number,
+    length: number,
+    element: Schema,
+    path: readonly PathSegment[] = [],
+  ) {
+    this.bytes = bytes
+    this.length = length
+    this.element = element
+    this.path = path
+    this.size = fixedSize(element)
+    this.offsets = [offset]
+    if (this.size !== undefined) {
+      // Check that every element is in the buffer
+      new BorshDecoder(bytes, offset, path).skip({ array: { type: element, len: length } })
+    }
+  }
+
+  /**
+   * Element at `index`, or undefined when the index is out of range.
+   */
+  get(index: number): T | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) return undefined
+    if (!(index in this.cache)) {
+      const offset = this.offsetOf(index)
+      this.cache[index] = createView(this.bytes, offset, this.element, [...this.path, index]) as T
+    }
+    return this.cache[index]
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this.length; i++) yield this.get(i) as T
+  }
+
+  private offsetOf(index: number): number {
+    const { offsets } = this
+    if (this.size !== undefined) return offsets[0] + index * this.size
+    for (let i = offsets.length; i <= index; i++) {
+      const decoder = new BorshDecoder(this.bytes, offsets[i - 1], [...this.path, i - 1])
+      decoder.skip(this.element)
+      offsets.push(decoder.position)
+    }
+    return offsets[index]
+  }
+}
+
+/**
+ * HashMap whose keys are decoded on the first lookup, and whose values are
+ * decoded when accessed. Like a decoded Map, keys that aren't primitives are
+ * compared by their encoding.
+ */
+export class MapView<K, V> implements Iterable<[K, V]> {
+  readonly size: number
+
+  private readonly bytes: Uint8Array
+  private readonly offset: number
+  private readonly schema: MapType
+  private readonly path: readonly PathSegment[]
+  // Offset of the value of each key
+  private index: Map<K, number> | undefined
+  // Decoded values, keyed like the index
+  private readonly cache: Map<K, V>
+
+  constructor(
+    bytes: Uint8Array,
+    offset: number,
+    schema: MapType,
+    path: readonly PathSegment[] = [],
+  ) {
+    this.bytes = bytes
+    this.offset = offset + 4
+    this.schema = schema
+    this.path = path
+    this.size = new BorshDecoder(bytes, offset, path).decode("u32") as number
+    this.cache = createMap(schema.map.key)
+  }
+
+  get(key: K): V | undefined {
+    const offset = this.lookup().get(key)
+    if (offset === undefined) return undefined
+    if (!this.cache.has(key)) {
+      const value = createView(this.bytes, offset, this.schema.map.value, [...this.path, { key }])
+      this.cache.set(key, value as V)
+    }
+    return this.cache.get(key)
+  }
+
+  has(key: K): boolean {
+    return this.lookup().has(key)
+  }
+
+  keys(): IterableIterator<K> {
+    return this.lookup().keys()
+  }
+
+  *values(): IterableIterator<V> {
+    for (const key of this.keys()) yield this.get(key) as V
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const key of this.keys()) yield [key, this.get(key) as V]
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+
+  private lookup(): Map<K, number> {
+    if (this.index) return this.index
+
+    const index = createMap<K, number>(this.schema.map.key)
+    const decoder = new BorshDecoder(this.bytes, this.offset, this.path)
+    for (let i = 0; i < this.size; i++) {
+      const key = decoder.decode(this.schema.map.key) as K
+      index.set(key, decoder.position)
+      decoder.skip(this.schema.map.value)
+    }
+    this.index = index
+    return index
+  }
+}
@@ -0,0 +1,459 @@
+import { describe, expect, test } from "vitest"
+import { BorshDecodeError, BorshSchema, type NearAbi, b, generateTypeScript } from "../src"
+
+const U32_RANGE = { start: 0, end: 4294967295 }
+
+describe("toAbi", () => {
+  test("primitives and collections", () => {
+    const schema = b.Struct({
+      name: b.string(),
+      hash: b.Bytes(32),
+      scores: b.Vec(b.u32()),
+      tags: b.HashSet(b.string()),
+      balances: b.HashMap(b.string(), b.u128()),
+      owner: b.Option(b.string()),
+    })
+
+    expect(schema.toAbi("Account")).toEqual({
+      declaration: "Account",
+      definitions: {
+        "()": { Primitive: 0 },
+        "(String, u128)": { Tuple: { elements: ["String", "u128"] } },
+        Account: {
+          Struct: {
+            fields: {
+              NamedFields: [
+                ["name", "String"],
+                ["hash", "[u8; 32]"],
+                ["scores", "Vec<u32>"],
+                ["tags", "HashSet<String>"],
+                ["balances", "HashMap<String, u128>"],
+                ["owner", "Option<String>"],
+              ],
+            },
+          },
+        },
+        "HashMap<String, u128>": {
+          Sequence: { length_width: 4, length_range: U32_RANGE, elements: "(String, u128)" },
+        },
+        "HashSet<String>": {
+          Sequence: { length_width: 4, length_range: U32_RANGE, elements: "String" },
+        },
+        "Option<String>": {
+          Enum: {
+            tag_width: 1,
+            variants: [
+              [0, "None", "()"],
+              [1, "Some", "String"],
+            ],
+          },
+        },
+        String: { Sequence: { length_width: 4, length_range: U32_RANGE, elements: "u8" } },
+        "Vec<u32>": { Sequence: { length_width: 4, length_range: U32_RANGE, elements: "u32" } },
+        "[u8; 32]": {
+          Sequence: { length_width: 0, length_range: { start: 32, end: 32 }, elements: "u8" },
+        },
+        u128: { Primitive: 16 },
+        u32: { Primitive: 4 },
+        u8: { Primitive: 1 },
+      },
+    })
+  })
+
+  test("names nested structs and enum variants", () => {
+    const schema = b.Struct({
+      players: b.Vec(b.Struct({ id: b.string() })),
+      status: b.Enum({
+        Playing: b.unit(),
+        Paused: b.u64(),
+        GameOver: b.Struct({ winner: b.string() }),
+      }),
+    })
+    const { declaration, definitions } = schema.toAbi("Game")
+
+    expect(declaration).toBe("Game")
+    expect(definitions.Game).toEqual({
+      Struct: {
+        fields: {
+          NamedFields: [
+            ["players", "Vec<GamePlayers>"],
+            ["status", "GameStatus"],
+          ],
+        },
+      },
+    })
+    expect(definitions.GamePlayers).toEqual({
+      Struct: { fields: { NamedFields: [["id", "String"]] } },
+    })
+    expect(definitions.GameStatus).toEqual({
+      Enum: {
+        tag_width: 1,
+        variants: [
+          [0, "Playing", "GameStatusPlaying"],
+          [1, "Paused", "GameStatusPaused"],
+          [2, "GameOver", "GameStatusGameOver"],
+        ],
+      },
+    })
+    expect(definitions.GameStatusPlaying).toEqual({ Struct: { fields: "Empty" } })
+    expect(definitions.GameStatusPaused).toEqual({
+      Struct: { fields: { UnnamedFields: ["u64"] } },
+    })
+    expect(definitions.GameStatusGameOver).toEqual({
+      Struct: { fields: { NamedFields: [["winner", "String"]] } },
+    })
+  })
+
+  test("native enums keep their discriminants", () => {
+    expect(b.NativeEnum({ A: 0, B: 5 }).toAbi("Flag").definitions.Flag).toEqual({
+      Enum: {
+        tag_width: 1,
+        variants: [
+          [0, "A", "FlagA"],
+          [5, "B", "FlagB"],
+        ],
+      },
+    })
+  })
+
+  test("reused and recursive schemas get a single definition", () => {
+    type Tree = { value: number; children: Tree[] }
+    const tree: BorshSchema<Tree> = b.Struct({
+      value: b.u8(),
+      children: b.Vec(b.lazy(() => tree)),
+    })
+    const point = b.Struct({ x: b.i32(), y: b.i32() })
+    const line = b.Struct({ from: point, to: point })
+
+    expect(tree.toAbi("Tree").definitions.Tree).toEqual({
+      Struct: {
+        fields: {
+          NamedFields: [
+            ["value", "u8"],
+            ["children", "Vec<Tree>"],
+          ],
+        },
+      },
+    })
+    expect(Object.keys(line.toAbi("Line").definitions)).toEqual(["Line", "LineFrom", "i32"])
+  })
+})
+
+describe("toJsonSchema", () => {
+  test("describes values with named definitions", () => {
+    const schema = b.Struct({
+      id: b.u32(),
+      balance: b.u128(),
+      tags: b.Vec(b.string()),
+      nickname: b.Option(b.string()),
+      status: b.Enum({ Active: b.unit(), Banned: b.Struct({ reason: b.string() }) }),
+    })
+
+    expect(schema.toJsonSchema("User")).toEqual({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: "User",
+      $ref: "#/definitions/User",
+      definitions: {
+        User: {
+          type: "object",
+          properties: {
+            id: { type: "integer", format: "uint32", minimum: 0, maximum: 4294967295 },
+            balance: { type: "integer", format: "uint128", minimum: 0 },
+            tags: { type: "array", items: { type: "string" } },
+            nickname: { anyOf: [{ type: "string" }, { type: "null" }] },
+            status: { $ref: "#/definitions/UserStatus" },
+          },
+          required: ["id", "balance", "tags", "nickname", "status"],
+        },
+        UserStatus: {
+          oneOf: [
+            {
+              type: "object",
+              properties: { Active: { type: "object", additionalProperties: false } },
+              required: ["Active"],
+              additionalProperties: false,
+            },
+            {
+              type: "object",
+              properties: { Banned: { $ref: "#/definitions/UserStatusBanned" } },
+              required: ["Banned"],
+              additionalProperties: false,
+            },
+          ],
+        },
+        UserStatusBanned: {
+          type: "object",
+          properties: { reason: { type: "string" } },
+          required: ["reason"],
+        },
+      },
+    })
+  })
+
+  test("lists required fields in wire order", () => {
+    const schema = b.Struct([
+      ["name", b.string()],
+      ["1", b.u8()],
+    ])
+    const tagged = b.Enum({ A: schema }, { tag: "kind" })
+
+    expect(schema.toJsonSchema("Pair").definitions).toMatchObject({
+      Pair: {
+        properties: { name: { type: "string" }, "1": { format: "uint8" } },
+        required: ["name", "1"],
+      },
+    })
+    expect(tagged.toJsonSchema("Tagged").definitions).toMatchObject({
+      Tagged: { oneOf: [{ required: ["kind", "name", "1"] }] },
+    })
+  })
+
+  test("tagged enums, maps and fixed arrays", () => {
+    const shape = b.Enum({ Circle: b.Struct({ radius: b.u8() }) }, { tag: "kind" })
+
+    expect(shape.toJsonSchema("Shape").definitions).toEqual({
+      Shape: {
+        oneOf: [
+          {
+            type: "object",
+            properties: {
+              kind: { const: "Circle" },
+              radius: { type: "integer", format: "uint8", minimum: 0, maximum: 255 },
+            },
+            required: ["kind", "radius"],
+          },
+        ],
+      },
+    })
+    expect(b.HashMap(b.string(), b.bool()).toJsonSchema()).toEqual({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: "Root",
+      type: "object",
+      additionalProperties: { type: "boolean" },
+    })
+    expect(b.Array(b.bool(), 2).toJsonSchema()).toMatchObject({
+      type: "array",
+      items: { type: "boolean" },
+      minItems: 2,
+      maxItems: 2,
+    })
+  })
+})
+
+describe("fromAbi", () => {
+  const game = b.Struct({
+    players: b.Vec(b.Struct({ id: b.string(), scores: b.Vec(b.u32()) })),
+    status: b.Enum({
+      Playing: b.unit(),
+      Paused: b.u64(),
+      Moved: b.Tuple(b.i8(), b.i8()),
+      GameOver: b.Struct({ winner: b.Option(b.string()) }),
+    }),
+    balances: b.HashMap(b.string(), b.u128()),
+    hash: b.Bytes(4),
+  })
+  const value: b.infer<typeof game> = {
+    players: [{ id: "p1", scores: new Uint32Array([1, 2]) }],
+    status: { GameOver: { winner: "p1" } },
+    balances: new Map([["p1", 10n]]),
+    hash: new Uint8Array([1, 2, 3, 4]),
+  }
+
+  test("round trips through toAbi", () => {
+    const schema = BorshSchema.fromAbi(game.toAbi("Game"), "Game")
+    const buffer = game.serialize(value)
+
+    expect(schema.deserialize(buffer)).toEqual(value)
+    expect(schema.serialize(value)).toEqual(buffer)
+    expect(schema.deserialize(game.serialize({ ...value, status: { Moved: [1, -1] } }))).toEqual({
+      ...value,
+      status: { Moved: [1, -1] },
+    })
+  })
+
+  test("keeps the order of integer-like fields", () => {
+    const schema = b.Struct([
+      ["b", b.u8()],
+      ["1", b.u32()],
+    ])
+    const buffer = schema.serialize({ b: 1, "1": 2 })
+
+    expect(BorshSchema.fromAbi(schema.toAbi("Mixed"), "Mixed").deserialize(buffer)).toEqual({
+      b: 1,
+      "1": 2,
+    })
+    expect(
+      BorshSchema.deserializeWithSchema(schema.serializeWithSchema({ b: 1, "1": 2 })).value,
+    ).toEqual({
+      b: 1,
+      "1": 2,
+    })
+  })
+
+  test("a field named __proto__ is decoded as a property", () => {
+    const abi = b
+      .Struct([
+        ["__proto__", b.u8()],
+        ["a", b.u8()],
+      ])
+      .toAbi("Untrusted")
+    const schema = BorshSchema.fromAbi(abi, "Untrusted")
+    const value = schema.deserialize(Uint8Array.from([1, 2])) as Record<string, number>
+
+    expect(Object.entries(value)).toEqual([
+      ["__proto__", 1],
+      ["a", 2],
+    ])
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+    expect(schema.serialize(value)).toEqual(Buffer.from([1, 2]))
+  })
+
+  test("reads types from the functions of a NEAR ABI", () => {
+    const abi: NearAbi = {
+      body: {
+        functions: [
+          { name: "get_status", result: { serialization_type: "json", type_schema: {} } },
+          {
+            name: "get_game",
+            result: { serialization_type: "borsh", type_schema: game.toAbi("Game") },
+          },
+        ],
+      },
+    }
+
+    const players = BorshSchema.fromAbi(abi, "Vec<GamePlayers>")
+    expect(
+      players.deserialize(
+        b.Vec(b.Struct({ id: b.string(), scores: b.Vec(b.u32()) })).serialize(value.players),
+      ),
+    ).toEqual(value.players)
+    expect(() => BorshSchema.fromAbi(abi, "Missing")).toThrow(
+      "Type Missing is not defined in the ABI",
+    )
+  })
+
+  test("fieldless enums become native enums", () => {
+    const flag = BorshSchema.fromAbi(b.NativeEnum({ A: 0, B: 5 }).toAbi("Flag"), "Flag")
+
+    expect(flag.deserialize(Uint8Array.from([5]))).toBe("B")
+  })
+
+  test("recursive types", () => {
+    type Tree = { value: number; children: Tree[] }
+    const tree: BorshSchema<Tree> = b.Struct({
+      value: b.u8(),
+      children: b.Vec(b.lazy(() => tree)),
+    })
+    const value: Tree = { value: 1, children: [{ value: 2, children: [] }] }
+
+    expect(
+      BorshSchema.fromAbi(tree.toAbi("Tree"), "Tree").deserialize(tree.serialize(value)),
+    ).toEqual(value)
+  })
+})
+
+describe("serializeSchema", () => {
+  test("matches the borsh-rs container format", () => {
+    // borsh::to_vec(&schema_container_of::<u8>())
+    expect([...b.u8().serializeSchema()]).toEqual([
+      // declaration: "u8"
+      2, 0, 0, 0, 0x75, 0x38,
+      // definitions: { "u8": Primitive(1) }
+      1, 0, 0, 0, 2, 0, 0, 0, 0x75, 0x38, 0, 1,
+    ])
+  })
+
+  test("round trips through deserializeSchema", () => {
+    const schema = b.Struct({
+      name: b.string(),
+      hash: b.Bytes(4),
+      balances: b.HashMap(b.string(), b.u128()),
+      status: b.Enum({ Idle: b.unit(), Moved: b.Tuple(b.i32(), b.i32()) }),
+      flag: b.NativeEnum({ A: 0, B: 5 }),
+    })
+    const value = {
+      name: "alice",
+      hash: new Uint8Array([1, 2, 3, 4]),
+      balances: new Map([["near", 10n]]),
+      status: { Moved: [1, -1] as [number, number] },
+      flag: "B" as const,
+    }
+
+    const decoded = BorshSchema.deserializeSchema(schema.serializeSchema("Account"))
+
+    expect(decoded.toAbi("Account")).toEqual(schema.toAbi("Account"))
+    expect(decoded.deserialize(schema.serialize(value))).toEqual(value)
+  })
+
+  test("stores data together with its schema", () => {
+    const schema = b.Struct({ id: b.u64(), tags: b.Vec(b.string()) })
+    const bytes = schema.serializeWithSchema({ id: 7n, tags: ["a", "b"] })
+
+    expect(bytes.subarray(0, schema.serializeSchema().length)).toEqual(schema.serializeSchema())
+
+    const { schema: decoded, value } = BorshSchema.deserializeWithSchema(bytes)
+    expect(value).toEqual({ id: 7n, tags: ["a", "b"] })
+    expect(decoded.toAbi()).toEqual(schema.toAbi())
+  })
+
+  test("reports invalid containers", () => {
+    expect(() =>
+      BorshSchema.deserializeSchema(new Uint8Array([2, 0, 0, 0, 0x75, 0x38, 1])),
+    ).toThrow(BorshDecodeError)
+  })
+})
+
+describe("generateTypeScript", () => {
+  test("emits b.* definitions in dependency order", () => {
+    type Expr = { Lit: bigint } | { Neg: Expr }
+    const expr: BorshSchema<Expr> = b.Enum({ Lit: b.u64(), Neg: b.lazy(() => expr) })
+    const schema = b.Struct({
+      players: b.Vec(b.Struct({ id: b.string(), hash: b.Bytes(32) })),
+      flag: b.NativeEnum({ A: 0, B: 5 }),
+      expr,
+    })
+
+    expect(
+      generateTypeScript(schema.toAbi("Game")),
+    ).toBe(`import { type BorshSchema, b } from "borsher"
+
+export const GamePlayers = b.Struct({
+  id: b.string(),
+  hash: b.Bytes(32),
+})
+export type GamePlayers = b.infer<typeof GamePlayers>
+
+export const GameFlag = b.NativeEnum({ A: 0, B: 5 })
+export type GameFlag = b.infer<typeof GameFlag>
+
+export type GameExpr = { Lit: bigint } | { Neg: GameExpr }
+export const GameExpr: BorshSchema<GameExpr> = b.Enum({
+  Lit: b.u64(),
+  Neg: b.lazy(() => GameExpr),
+})
+
+export const Game = b.Struct({
+  players: b.Vec(GamePlayers),
+  flag: GameFlag,
+  expr: GameExpr,
+})
+export type Game = b.infer<typeof Game>
+`)
+  })
+
+  test("integer-like fields keep their order as pairs", () => {
+    const schema = b.Struct([
+      ["b", b.u8()],
+      ["1", b.u32()],
+    ])
+
+    expect(generateTypeScript(schema.toAbi("Mixed"))).toBe(`import { b } from "borsher"
+
+export const Mixed = b.Struct([
+  ["b", b.u8()],
+  ["1", b.u32()],
+])
+export type Mixed = b.infer<typeof Mixed>
+`)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "vitest"
+import { BorshDecodeError, b } from "../src"
+
+function keysOf<K>(schema: { deserialize(buffer: Uint8Array): Map<K, unknown> }, buffer: Buffer) {
+  return [...schema.deserialize(buffer).keys()]
+}
+
+describe("canonical HashMap and HashSet order", () => {
+  test("integers are sorted by value", () => {
+    const schema = b.HashMap(b.u32(), b.u8())
+    const buffer = schema.serialize(
+      new Map([
+        [256, 1],
+        [1, 2],
+      ]),
+    )
+
+    // Not the order of the little-endian bytes, where 256 would come first
+    expect([...buffer]).toEqual([2, 0, 0, 0, 1, 0, 0, 0, 2, 0, 1, 0, 0, 1])
+    expect(
+      keysOf(
+        b.HashMap(b.i64(), b.unit()),
+        b.HashMap(b.i64(), b.unit()).serialize(
+          new Map([
+            [5n, {}],
+            [-3n, {}],
+            [2n ** 40n, {}],
+          ]),
+        ),
+      ),
+    ).toEqual([-3n, 5n, 2n ** 40n])
+  })
+
+  test("strings are sorted by their UTF-8 bytes", () => {
+    const schema = b.HashSet(b.string())
+    const buffer = schema.serialize(new Set(["b", "😀", "！", "a", "ab", ""]))
+
+    // UTF-16 would put the emoji's surrogates before U+FF01
+    expect([...schema.deserialize(buffer)]).toEqual(["", "a", "ab", "b", "！", "😀"])
+  })
+
+  test("byte arrays, options and composite keys", () => {
+    const bytes = b.HashSet(b.Vec(b.u8()))
+    expect([
+      ...bytes.deserialize(
+        bytes.serialize(
+          new Set([new Uint8Array([2]), new Uint8Array([1, 5]), new Uint8Array([1])]),
+        ),
+      ),
+    ]).toEqual([new Uint8Array([1]), new Uint8Array([1, 5]), new Uint8Array([2])])
+
+    const options = b.HashSet(b.Option(b.u8()))
+    expect([...options.deserialize(options.serialize(new Set([3, null, 1])))]).toEqual([null, 1, 3])
+
+    const point = b.Struct({ x: b.u16(), label: b.string() })
+    const schema = b.HashMap(point, b.Enum({ A: b.unit(), B: b.u8() }))
+    const keys = [
+      { x: 2, label: "a" },
+      { x: 1, label: "zz" },
+      { x: 1, label: "b" },
+    ]
+    const value = new Map(keys.map((key, index) => [key, index ? { A: {} } : { B: 1 }]))
+
+    expect(keysOf(schema, schema.serialize(value))).toEqual([keys[2], keys[1], keys[0]])
+  })
+
+  test("serializing is independent of insertion order", () => {
+    const schema = b.HashMap(b.string(), b.u32())
+    const entries: [string, number][] = [
+      ["sword", 1],
+      ["potion", 5],
+      ["arrow", 20],
+    ]
+
+    expect(schema.serialize(new Map(entries))).toEqual(
+      schema.serialize(new Map([...entries].reverse())),
+    )
+  })
+
+  test("equal keys can't be serialized", () => {
+    const schema = b.HashSet(b.Struct({ id: b.u8() }))
+
+    expect(() => schema.serialize(new Set([{ id: 1 }, { id: 1 }]))).toThrow(
+      "Duplicate element { id } at value",
+    )
+  })
+})
+
+describe("canonical decoding", () => {
+  const schema = b.Struct({ balances: b.HashMap(b.string(), b.u8()) })
+  // { "b": 1, "a": 2 } in insertion order, as a non-canonical encoder would write it
+  const unsorted = Buffer.from([2, 0, 0, 0, 1, 0, 0, 0, 0x62, 1, 1, 0, 0, 0, 0x61, 2])
+
+  test("accepts unsorted input by default", () => {
+    expect(schema.deserialize(unsorted).balances).toEqual(
+      new Map([
+        ["b", 1],
+        ["a", 2],
+      ]),
+    )
+  })
+
+  test("rejects unsorted input and duplicates", () => {
+    expect(() => schema.deserialize(unsorted, { canonical: true })).toThrow(
+      new BorshDecodeError('Key "a" is not sorted after "b"', {
+        offset: 10,
+        path: "balances",
+        expected: "string",
+        excerpt: "… 00 00 01 00 00 00 62 01 [01] 00 00 00 61 02",
+      }),
+    )
+
+    const duplicated = Buffer.from([2, 0, 0, 0, 7, 7])
+    expect(() => b.HashSet(b.u8()).deserialize(duplicated, { canonical: true })).toThrow(
+      "Element 7 is not sorted after 7 at byte 5 in [1]",
+    )
+  })
+
+  test("accepts what serialize writes", () => {
+    const value = {
+      balances: new Map([
+        ["b", 1],
+        ["a", 2],
+      ]),
+    }
+    const buffer = schema.serialize(value)
+
+    expect(schema.deserialize(buffer, { canonical: true })).toEqual(value)
+    expect(schema.decodeFrom(buffer, 0, { canonical: true }).bytesRead).toBe(buffer.length)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "vitest"
+import { generateTypeScriptFromRust } from "../src"
+
+describe("generateTypeScriptFromRust", () => {
+  test("structs, enums and the primitive mapping", () => {
+    const source = `
+      use borsh::{BorshDeserialize, BorshSerialize};
+      use std::collections::HashMap;
+
+      /// A player, with a /* nested */ comment
+      #[derive(BorshSerialize, BorshDeserialize, Debug)]
+      pub struct Player {
+          pub id: String,
+          #[borsh(skip)]
+          pub cache: Vec<u8>,
+          pub(crate) hash: [u8; 32],
+          pub scores: Vec<u32>,
+          pub inventory: HashMap<String, u16>,
+          pub position: (i32, i32),
+          pub nickname: Option<Box<String>>,
+      }
+
+      #[derive(BorshSerialize, BorshDeserialize)]
+      pub struct Id(pub u64);
+
+      #[near(serializers = [borsh, json])]
+      pub enum Status {
+          Playing,
+          Paused(u64),
+          GameOver { winner: Option<Id> },
+      }
+
+      // Not serialized with Borsh, so it is ignored
+      #[derive(Debug)]
+      struct Cache { entries: Unknown }
+    `
+
+    expect(generateTypeScriptFromRust(source)).toBe(`import { b } from "borsher"
+
+export const Player = b.Struct({
+  id: b.string(),
+  hash: b.Bytes(32),
+  scores: b.Vec(b.u32()),
+  inventory: b.HashMap(b.string(), b.u16()),
+  position: b.Tuple(b.i32(), b.i32()),
+  nickname: b.Option(b.string()),
+})
+export type Player = b.infer<typeof Player>
+
+export const Id = b.u64()
+export type Id = b.infer<typeof Id>
+
+export const StatusGameOver = b.Struct({
+  winner: b.Option(Id),
+})
+export type StatusGameOver = b.infer<typeof StatusGameOver>
+
+export const Status = b.Enum({
+  Playing: b.unit(),
+  Paused: b.u64(),
+  GameOver: StatusGameOver,
+})
+export type Status = b.infer<typeof Status>
+`)
+  })
+
+  test("fieldless enums with explicit discriminants", () => {
+    const source = `
+      #[derive(BorshSerialize)]
+      #[borsh(use_discriminant = true)]
+      enum Flag { A = 0, B = 5, C }
+    `
+
+    expect(generateTypeScriptFromRust(source)).toContain(
+      "export const Flag = b.NativeEnum({ A: 0, B: 5, C: 6 })",
+    )
+  })
+
+  test("usize and isize are 64-bit", () => {
+    const source = `
+      #[derive(BorshSerialize)]
+      struct Range { start: usize, offset: isize, lengths: Vec<usize> }
+    `
+
+    expect(generateTypeScriptFromRust(source)).toContain(`export const Range = b.Struct({
+  start: b.u64(),
+  offset: b.i64(),
+  lengths: b.Vec(b.u64()),
+})`)
+  })
+
+  test("recursive types get an explicit type", () => {
+    const source = `
+      #[derive(BorshSerialize)]
+      enum Expr { Lit(u64), Add(Box<Expr>, Box<Expr>) }
+    `
+
+    expect(generateTypeScriptFromRust(source)).toBe(`import { type BorshSchema, b } from "borsher"
+
+export type Expr = { Lit: bigint } | { Add: [Expr, Expr] }
+export const Expr: BorshSchema<Expr> = b.Enum({
+  Lit: b.u64(),
+  Add: b.Tuple(b.lazy(() => Expr), b.lazy(() => Expr)),
+})
+`)
+  })
+
+  test("reports unsupported input", () => {
+    expect(() =>
+      generateTypeScriptFromRust("#[derive(BorshSerialize)]\nstruct A { b: Missing }"),
+    ).toThrow("Type Missing used at line 2 is not a Borsh serializable struct or enum")
+    expect(() => generateTypeScriptFromRust("#[derive(BorshSerialize)]\nstruct A<T>(T);")).toThrow(
+      "Generic type A at line 2 is not supported",
+    )
+  })
+})
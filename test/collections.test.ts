@@ -0,0 +1,177 @@
+import { describe, expect, expectTypeOf, test } from "vitest"
+import { BorshMap, BorshSet, b } from "../src"
+
+describe("structural keys", () => {
+  test("maps with composite keys are looked up by value", () => {
+    const schema = b.HashMap(b.Bytes(4), b.u64())
+    const balances = schema.deserialize(
+      schema.serialize(
+        new Map([
+          [new Uint8Array([1, 2, 3, 4]), 10n],
+          [new Uint8Array([5, 6, 7, 8]), 20n],
+        ]),
+      ),
+    )
+
+    expect(balances).toBeInstanceOf(BorshMap)
+    expect(balances.get(new Uint8Array([5, 6, 7, 8]))).toBe(20n)
+    expect(balances.has(new Uint8Array([1, 2, 3, 4]))).toBe(true)
+    expect(balances.has(new Uint8Array([1, 2, 3, 5]))).toBe(false)
+
+    balances.set(new Uint8Array([1, 2, 3, 4]), 11n)
+    expect(balances.size).toBe(2)
+    expect(balances.get(new Uint8Array([1, 2, 3, 4]))).toBe(11n)
+    expect(balances.delete(new Uint8Array([5, 6, 7, 8]))).toBe(true)
+    expect([...balances]).toEqual([[new Uint8Array([1, 2, 3, 4]), 11n]])
+  })
+
+  test("structs, tuples and enums", () => {
+    const point = b.Struct({ x: b.i32(), y: b.i32() })
+    const schema = b.HashMap(b.Tuple(point, b.Option(b.string())), b.string())
+    const map = schema.deserialize(schema.serialize(new Map([[[{ x: 1, y: -1 }, null], "a"]])))
+
+    expect(map.get([{ x: 1, y: -1 }, null])).toBe("a")
+    expect(map.get([{ x: 1, y: -1 }, ""])).toBeUndefined()
+
+    const shapes = b.HashSet(b.Enum({ Dot: b.unit(), Circle: b.u8() }))
+    const set = shapes.deserialize(shapes.serialize(new Set([{ Circle: 2 }, { Dot: {} }])))
+    expect(set).toBeInstanceOf(BorshSet)
+    expect(set.has({ Circle: 2 })).toBe(true)
+    expect(set.has({ Circle: 3 })).toBe(false)
+    expect(set.add({ Dot: {} }).size).toBe(2)
+  })
+
+  test("primitive keys decode to plain Maps and Sets", () => {
+    const map = b.HashMap(b.u64(), b.string())
+    const set = b.HashSet(b.string())
+
+    expect(map.deserialize(map.serialize(new Map([[1n, "a"]])))).not.toBeInstanceOf(BorshMap)
+    expect(set.deserialize(set.serialize(new Set(["a"])))).not.toBeInstanceOf(BorshSet)
+  })
+
+  test("duplicate keys in the input keep the last value", () => {
+    const schema = b.HashMap(b.Struct({ id: b.u8() }), b.u8())
+    const buffer = Buffer.from([2, 0, 0, 0, 1, 10, 1, 20])
+    const map = schema.deserialize(buffer)
+
+    expect(map.size).toBe(1)
+    expect(map.get({ id: 1 })).toBe(20)
+  })
+
+  test("views look up composite keys by value", () => {
+    const schema = b.Struct({ owners: b.HashMap(b.Bytes(2), b.string()) })
+    const view = schema.view(
+      schema.serialize({ owners: new Map([[new Uint8Array([1, 2]), "alice"]]) }),
+    )
+
+    expect(view.owners.get(new Uint8Array([1, 2]))).toBe("alice")
+    expect(view.owners.has(new Uint8Array([2, 1]))).toBe(false)
+  })
+
+  test("views decode each value once, whatever key object it is read with", () => {
+    const schema = b.HashMap(b.Bytes(2), b.Struct({ name: b.string() }))
+    const view = schema.view(schema.serialize(new Map([[new Uint8Array([1, 2]), { name: "a" }]])))
+    const value = view.get(new Uint8Array([1, 2]))
+
+    expect(value).toEqual({ name: "a" })
+    expect(view.get(new Uint8Array([1, 2]))).toBe(value)
+    expect([...view.values()][0]).toBe(value)
+  })
+
+  test("lookups of values that don't match the key schema miss", () => {
+    const schema = b.HashMap(b.Struct({ id: b.u8() }), b.u8())
+    const map = schema.deserialize(Buffer.from([1, 0, 0, 0, 1, 10]))
+
+    expect(map.get("x" as never)).toBeUndefined()
+    expect(map.has({} as never)).toBe(false)
+    expect(map.delete({ id: "1" } as never)).toBe(false)
+    expect(map.size).toBe(1)
+    expect(() => map.set({ id: "1" } as never, 1)).toThrow(
+      "Expected number not string(1) at value.id",
+    )
+
+    const set = b.HashSet(b.Tuple(b.u8(), b.string())).deserialize(Buffer.from([0, 0, 0, 0]))
+    expect(set.has([1] as never)).toBe(false)
+    expect(set.delete(null as never)).toBe(false)
+  })
+})
+
+describe("Record", () => {
+  const schema = b.Struct({ balances: b.Record(b.string(), b.u64()) })
+  type Value = b.infer<typeof schema>
+
+  test("has the same bytes as a HashMap", () => {
+    const value: Value = { balances: { bob: 2n, alice: 1n } }
+    const buffer = schema.serialize(value)
+    const map = b.Struct({ balances: b.HashMap(b.string(), b.u64()) })
+
+    expect(buffer).toEqual(
+      map.serialize({
+        balances: new Map([
+          ["alice", 1n],
+          ["bob", 2n],
+        ]),
+      }),
+    )
+    expect(schema.deserialize(buffer)).toEqual(value)
+    // Keys come back in canonical order
+    expect(Object.keys(schema.deserialize(buffer).balances)).toEqual(["alice", "bob"])
+  })
+
+  test("keys that are special to objects", () => {
+    const record = b.Record(b.string(), b.u8())
+    const value = record.deserialize(
+      record.serialize(JSON.parse('{"__proto__":1,"constructor":2}')),
+    )
+
+    expect(Object.keys(value)).toEqual(["__proto__", "constructor"])
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+  })
+
+  test("validates entries", () => {
+    expect(schema.validate({ balances: { alice: 1n } }).success).toBe(true)
+    expect(schema.validate({ balances: { alice: 1 } }).success).toBe(false)
+    expect(schema.validate({ balances: null }).success).toBe(false)
+    expect(() => schema.serialize({ balances: 1 } as never)).toThrow(
+      "Expected a plain object not 1",
+    )
+  })
+
+  test("rejects arrays and other objects", () => {
+    const record = b.Record(b.string(), b.u8())
+
+    for (const value of [[1], new Map([["a", 1]]), new Date(0)]) {
+      expect(record.validate(value).success).toBe(false)
+      expect(() => record.serialize(value as never)).toThrow(TypeError)
+    }
+    expect(record.validate(Object.create(null)).success).toBe(true)
+
+    const result = record.validate([1])
+    if (result.success) return
+    expect(result.error.issues).toEqual([
+      {
+        path: "",
+        expected: "HashMap<string, u8>",
+        received: [1],
+        message: "Cannot encode value (Expected a plain object not Array(1)), received Array(1)",
+      },
+    ])
+  })
+
+  test("paths use property names", () => {
+    const result = schema.validate({ balances: { alice: 1n, bob: -1n } })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toMatchObject([{ path: "balances.bob", expected: "u64" }])
+
+    const buffer = schema.serialize({ balances: { alice: 1n } })
+    expect(() => schema.deserialize(buffer.subarray(0, buffer.length - 1))).toThrow(
+      "at byte 13 in balances.alice",
+    )
+  })
+
+  test("types", () => {
+    expectTypeOf<Value>().toEqualTypeOf<{ balances: Record<string, bigint> }>()
+  })
+})
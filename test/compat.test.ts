@@ -0,0 +1,113 @@
+import { type Schema, serialize } from "borsh"
+import { describe, expect, test } from "vitest"
+import { type BorshSchema, b } from "../src"
+
+describe("borsh-js compatibility", () => {
+  // Each case pairs a borsher schema with the equivalent borsh-js schema
+  function expectSameBytes<T>(schema: BorshSchema<T, string>, raw: Schema, value: T): void {
+    const expected = serialize(raw, value)
+    const actual = schema.serialize(value)
+    expect(new Uint8Array(actual)).toEqual(expected)
+  }
+
+  test("primitives", () => {
+    expectSameBytes(b.u8(), "u8", 255)
+    expectSameBytes(b.u16(), "u16", 65535)
+    expectSameBytes(b.u32(), "u32", 4294967295)
+    expectSameBytes(b.u64(), "u64", 18446744073709551615n)
+    expectSameBytes(b.u128(), "u128", 340282366920938463463374607431768211455n)
+    expectSameBytes(b.i8(), "i8", -128)
+    expectSameBytes(b.i16(), "i16", -32768)
+    expectSameBytes(b.i32(), "i32", -2147483648)
+    expectSameBytes(b.i64(), "i64", -9223372036854775808n)
+    expectSameBytes(b.i128(), "i128", -170141183460469231731687303715884105728n)
+    expectSameBytes(b.f32(), "f32", 3.5)
+    expectSameBytes(b.f64(), "f64", -Math.PI)
+    expectSameBytes(b.bool(), "bool", true)
+    expectSameBytes(b.string(), "string", "héllo wörld ✓ 🚀")
+    expectSameBytes(b.unit(), { struct: {} }, {})
+  })
+
+  test("collections", () => {
+    expectSameBytes(b.Option(b.u32()), { option: "u32" }, 7)
+    expectSameBytes(b.Option(b.u32()), { option: "u32" }, null)
+    expectSameBytes(b.Array(b.string(), 2), { array: { type: "string", len: 2 } }, ["a", "b"])
+    expectSameBytes(b.Vec(b.u8()), { array: { type: "u8" } }, Uint8Array.from([1, 2, 3]))
+    expectSameBytes(b.Vec(b.i64()), { array: { type: "i64" } }, BigInt64Array.from([-1n, 2n]))
+    expectSameBytes(b.Vec(b.f64()), { array: { type: "f64" } }, Float64Array.from([0.5, -1.25]))
+    expectSameBytes(b.Vec(b.u64()), { array: { type: "u64" } }, BigUint64Array.from([1n, 2n]))
+    expectSameBytes(b.HashSet(b.string()), { set: "string" }, new Set(["x", "y"]))
+    expectSameBytes(
+      b.HashMap(b.string(), b.u128()),
+      { map: { key: "string", value: "u128" } },
+      new Map([
+        ["alice", 1n],
+        ["bob", 2n],
+      ]),
+    )
+  })
+
+  test("structs and enums", () => {
+    const schema = b.Struct({
+      id: b.u32(),
+      tags: b.Vec(b.string()),
+      shape: b.Enum({
+        Square: b.u32(),
+        Circle: b.Struct({ radius: b.f32() }),
+      }),
+    })
+    const raw: Schema = {
+      struct: {
+        id: "u32",
+        tags: { array: { type: "string" } },
+        shape: {
+          enum: [
+            { struct: { Square: "u32" } },
+            { struct: { Circle: { struct: { radius: "f32" } } } },
+          ],
+        },
+      },
+    }
+    const value = { id: 1, tags: ["a", "b"], shape: { Circle: { radius: 1.5 } } }
+
+    expectSameBytes(schema, raw, value)
+  })
+
+  test("decodes borsh-js output into typed arrays", () => {
+    const schema = b.Struct({
+      bytes: b.Vec(b.u8()),
+      samples: b.Vec(b.f32()),
+      names: b.Vec(b.string()),
+    })
+    const raw: Schema = {
+      struct: {
+        bytes: { array: { type: "u8" } },
+        samples: { array: { type: "f32" } },
+        names: { array: { type: "string" } },
+      },
+    }
+    const buffer = serialize(raw, { bytes: [1, 2, 3], samples: [0.5, 1.5], names: ["a"] })
+    const decoded = schema.deserialize(buffer)
+
+    expect(decoded.bytes).toEqual(Uint8Array.from([1, 2, 3]))
+    expect(decoded.samples).toEqual(Float32Array.from([0.5, 1.5]))
+    expect(decoded.names).toEqual(["a"])
+  })
+
+  test("typed arrays are read from an offset within a larger buffer", () => {
+    const schema = b.Vec(b.u32())
+    const encoded = schema.serialize(Uint32Array.from([1, 2, 3]))
+    // Misalign the payload inside a bigger allocation
+    const backing = new Uint8Array(encoded.length + 1)
+    backing.set(encoded, 1)
+
+    expect(schema.deserialize(backing.subarray(1))).toEqual(Uint32Array.from([1, 2, 3]))
+  })
+
+  test("truncated buffers are rejected", () => {
+    const schema = b.Vec(b.u32())
+    const encoded = schema.serialize(Uint32Array.from([1, 2, 3]))
+
+    expect(() => schema.deserialize(encoded.subarray(0, encoded.length - 1))).toThrow()
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "vitest"
+import { BorshDecodeError, b } from "../src"
+
+describe("decode errors", () => {
+  const schema = b.Struct({
+    players: b.Vec(b.Struct({ id: b.string(), score: b.u32() })),
+    status: b.Enum({
+      Playing: b.unit(),
+      GameOver: b.Struct({
+        winner: b.string(),
+        finalScore: b.u32(),
+      }),
+    }),
+  })
+  const value = {
+    players: [{ id: "p1", score: 10 }],
+    status: { GameOver: { winner: "p1", finalScore: 10 } },
+  }
+
+  function decodeError(buffer: Uint8Array): BorshDecodeError {
+    try {
+      schema.deserialize(buffer)
+    } catch (error) {
+      expect(error).toBeInstanceOf(BorshDecodeError)
+      return error as BorshDecodeError
+    }
+    throw new Error("Expected deserialize to fail")
+  }
+
+  test("truncated buffer reports offset, path and expected type", () => {
+    const buffer = schema.serialize(value)
+    // Cut the buffer in the middle of the winner string
+    const error = decodeError(buffer.subarray(0, 20))
+
+    expect(error.offset).toBe(19)
+    expect(error.path).toBe("status.GameOver.winner")
+    expect(error.expected).toBe("string")
+    expect(error.excerpt).toBe("… 00 00 00 01 02 00 00 00 [70]")
+    expect(error.message).toBe(
+      "Unexpected end of buffer, needed 2 bytes but 1 left at byte 19 in status.GameOver.winner " +
+        "(expected string): … 00 00 00 01 02 00 00 00 [70]",
+    )
+  })
+
+  test("invalid enum variant index", () => {
+    const buffer = new Uint8Array(schema.serialize(value))
+    buffer[14] = 7
+
+    const error = decodeError(buffer)
+    expect(error.offset).toBe(14)
+    expect(error.path).toBe("status")
+    expect(error.expected).toBe("enum")
+    expect(error.message).toMatch(/^Invalid enum variant index 7 at byte 14 in status /)
+  })
+
+  test("array elements are part of the path", () => {
+    const buffer = schema.serialize(value)
+    const error = decodeError(buffer.subarray(0, 12))
+
+    expect(error.path).toBe("players[0].score")
+    expect(error.expected).toBe("u32")
+  })
+
+  test("invalid option tag", () => {
+    expect(() => b.Option(b.u8()).deserialize(Uint8Array.from([2, 1]))).toThrow(
+      new BorshDecodeError("Invalid option tag 2", {
+        offset: 0,
+        path: "",
+        expected: "Option<u8>",
+        excerpt: "[02] 01",
+      }),
+    )
+  })
+
+  test("huge length prefix on a short buffer", () => {
+    expect(() => b.Vec(b.u8()).deserialize(Uint8Array.from([0, 0, 0, 0x0c]))).toThrow(
+      "Unexpected end of buffer, needed 201326592 bytes but 0 left at byte 4",
+    )
+    expect(() => b.Vec(b.f64()).deserialize(Uint8Array.from([0xff, 0xff, 0xff, 0xff, 1]))).toThrow(
+      BorshDecodeError,
+    )
+    expect(() =>
+      b.Vec(b.u128(), { packed: true }).deserialize(Uint8Array.from([0xff, 0xff, 0xff, 0xff])),
+    ).toThrow(BorshDecodeError)
+  })
+})
+
+describe("decodeFrom", () => {
+  const schema = b.Struct({ id: b.u32(), name: b.string() })
+  // A u8 header, then two records
+  const buffer = Buffer.concat([
+    Buffer.from([9]),
+    schema.serialize({ id: 1, name: "alice" }),
+    schema.serialize({ id: 2, name: "bob" }),
+  ])
+
+  test("decodes values that are followed by other data", () => {
+    const first = schema.decodeFrom(buffer, 1)
+    expect(first).toEqual({ value: { id: 1, name: "alice" }, bytesRead: 13 })
+
+    const second = schema.decodeFrom(buffer, 1 + first.bytesRead)
+    expect(second).toEqual({ value: { id: 2, name: "bob" }, bytesRead: 11 })
+    expect(1 + first.bytesRead + second.bytesRead).toBe(buffer.length)
+  })
+
+  test("reports offsets in the whole buffer", () => {
+    expect(() => schema.decodeFrom(buffer.subarray(0, 20), 14)).toThrow(
+      "Unexpected end of buffer, needed 4 bytes but 2 left at byte 18 in name",
+    )
+    expect(() => schema.decodeFrom(buffer, buffer.length + 1)).toThrow(RangeError)
+  })
+})
+
+describe("strict deserialize", () => {
+  test("rejects trailing bytes", () => {
+    const buffer = Buffer.from([1, 0, 0])
+
+    expect(b.u16().deserialize(buffer)).toBe(1)
+    expect(() => b.u16().deserialize(buffer, { strict: true })).toThrow(
+      new BorshDecodeError("Unexpected 1 trailing bytes", {
+        offset: 2,
+        path: "",
+        expected: "end of buffer",
+        excerpt: "01 00 [00]",
+      }),
+    )
+    expect(b.u16().deserialize(buffer.subarray(0, 2), { strict: true })).toBe(1)
+  })
+})
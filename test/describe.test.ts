@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest"
+import { type BorshSchema, type SchemaDescription, b } from "../src"
+
+describe("describe", () => {
+  test("primitives and collections", () => {
+    expect(b.u8().describe()).toEqual({ kind: "primitive", type: "u8" })
+    expect(b.Option(b.string()).describe()).toEqual({
+      kind: "option",
+      inner: { kind: "primitive", type: "string" },
+    })
+    expect(b.Vec(b.u32()).describe()).toEqual({
+      kind: "vec",
+      element: { kind: "primitive", type: "u32" },
+      typedArray: "Uint32Array",
+    })
+    expect(b.Vec(b.u128(), { packed: true }).describe()).toMatchObject({
+      typedArray: "BigUint128Array",
+    })
+    expect(b.Vec(b.string()).describe()).toEqual({
+      kind: "vec",
+      element: { kind: "primitive", type: "string" },
+    })
+    expect(b.Bytes(32).describe()).toEqual({
+      kind: "array",
+      element: { kind: "primitive", type: "u8" },
+      length: 32,
+      typedArray: "Uint8Array",
+    })
+    expect(b.HashMap(b.string(), b.HashSet(b.bool())).describe()).toEqual({
+      kind: "map",
+      key: { kind: "primitive", type: "string" },
+      value: { kind: "set", element: { kind: "primitive", type: "bool" } },
+    })
+    expect(b.Tuple(b.i8(), b.f64()).describe()).toEqual({
+      kind: "tuple",
+      elements: [
+        { kind: "primitive", type: "i8" },
+        { kind: "primitive", type: "f64" },
+      ],
+    })
+  })
+
+  test("structs and enums", () => {
+    const schema = b.Struct({
+      name: b.string(),
+      shape: b.Enum({ Empty: b.unit(), Circle: b.Struct({ radius: b.u32() }) }, { tag: "kind" }),
+      flag: b.NativeEnum({ A: 0, B: 5 }),
+    })
+
+    expect(schema.describe()).toEqual({
+      kind: "struct",
+      fields: [
+        { name: "name", schema: { kind: "primitive", type: "string" } },
+        {
+          name: "shape",
+          schema: {
+            kind: "enum",
+            tag: "kind",
+            variants: [
+              { name: "Empty", index: 0, schema: { kind: "struct", fields: [] } },
+              {
+                name: "Circle",
+                index: 1,
+                schema: {
+                  kind: "struct",
+                  fields: [{ name: "radius", schema: { kind: "primitive", type: "u32" } }],
+                },
+              },
+            ],
+          },
+        },
+        {
+          name: "flag",
+          schema: {
+            kind: "nativeEnum",
+            variants: [
+              { name: "A", discriminant: 0 },
+              { name: "B", discriminant: 5 },
+            ],
+          },
+        },
+      ],
+    })
+  })
+
+  test("wrappers and recursive schemas", () => {
+    type Tree = { children: Tree[] }
+    const tree: BorshSchema<Tree> = b.Struct({ children: b.Vec(b.lazy(() => tree)) })
+    const description = tree.describe()
+
+    expect(description.kind).toBe("struct")
+    if (description.kind !== "struct") return
+    const children = description.fields[0].schema
+    if (children.kind !== "vec" || children.element.kind !== "lazy") {
+      throw new Error("Expected a Vec of a lazy schema")
+    }
+    expect(children.element.resolve()).toMatchObject({
+      kind: "struct",
+      fields: [{ name: "children", schema: { kind: "vec" } }],
+    })
+
+    const timestamp = b
+      .u64()
+      .refine((n) => n > 0n, "Expected a positive timestamp")
+      .transform(
+        (n) => new Date(Number(n)),
+        (date) => BigInt(date.getTime()),
+      )
+    expect(timestamp.describe()).toEqual({
+      kind: "transform",
+      inner: {
+        kind: "refine",
+        inner: { kind: "primitive", type: "u64" },
+        message: "Expected a positive timestamp",
+      },
+    } satisfies SchemaDescription)
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, expect, expectTypeOf, test } from "vitest"
+import { BorshDecodeError, b } from "../src"
+
+describe("NativeEnum", () => {
+  const status = b.NativeEnum(["Pending", "Fulfilled", "Rejected"])
+
+  test("infers a string literal union", () => {
+    expectTypeOf<b.infer<typeof status>>().toEqualTypeOf<"Pending" | "Fulfilled" | "Rejected">()
+  })
+
+  test("has the same wire format as an enum of unit variants", () => {
+    const unitEnum = b.Enum({ Pending: b.unit(), Fulfilled: b.unit(), Rejected: b.unit() })
+
+    expect(status.serialize("Fulfilled")).toEqual(unitEnum.serialize({ Fulfilled: {} }))
+    expect(status.deserialize(unitEnum.serialize({ Rejected: {} }))).toBe("Rejected")
+  })
+
+  test("explicit discriminants", () => {
+    const schema = b.NativeEnum({ A: 0, B: 5 })
+    expectTypeOf<b.infer<typeof schema>>().toEqualTypeOf<"A" | "B">()
+
+    expect(schema.serialize("B")).toEqual(Buffer.from([5]))
+    expect(schema.deserialize(Buffer.from([5]))).toBe("B")
+    expect(() => schema.deserialize(Buffer.from([1]))).toThrow(BorshDecodeError)
+    expect(() => schema.deserialize(Buffer.from([1]))).toThrow(
+      /^Invalid enum discriminant 1 at byte 0/,
+    )
+  })
+
+  test("rejects invalid discriminants", () => {
+    expect(() => b.NativeEnum({ A: 256 })).toThrow(RangeError)
+    expect(() => b.NativeEnum({ A: 1, B: 1 })).toThrow("Duplicate discriminant 1 for B")
+  })
+
+  test("unknown values", () => {
+    expect(() => status.serialize("Unknown" as "Pending")).toThrow(/not found in enum variants/)
+
+    const result = b.Struct({ status }).validate({ status: "Unknown" })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toEqual([
+      {
+        path: "status",
+        expected: "enum",
+        received: "Unknown",
+        message: 'Expected one of "Pending" | "Fulfilled" | "Rejected", received "Unknown"',
+      },
+    ])
+  })
+})
+
+describe("tagged Enum", () => {
+  const variants = {
+    Square: b.Struct({ side: b.u32() }),
+    Circle: b.Struct({ radius: b.u32() }),
+    Empty: b.unit(),
+  }
+  const shape = b.Enum(variants, { tag: "kind" })
+
+  test("infers a discriminated union", () => {
+    expectTypeOf<b.infer<typeof shape>>().toEqualTypeOf<
+      { kind: "Square"; side: number } | { kind: "Circle"; radius: number } | { kind: "Empty" }
+    >()
+
+    const value = shape.deserialize(shape.serialize({ kind: "Circle", radius: 3 }))
+    if (value.kind === "Circle") expectTypeOf(value.radius).toEqualTypeOf<number>()
+  })
+
+  test("has the same wire format as the default representation", () => {
+    const plain = b.Enum(variants)
+
+    expect(shape.serialize({ kind: "Circle", radius: 3 })).toEqual(
+      plain.serialize({ Circle: { radius: 3 } }),
+    )
+    expect(shape.serialize({ kind: "Empty" })).toEqual(plain.serialize({ Empty: {} }))
+    expect(shape.deserialize(plain.serialize({ Square: { side: 2 } }))).toEqual({
+      kind: "Square",
+      side: 2,
+    })
+  })
+
+  test("validates the tag and the variant fields", () => {
+    const result = b.Vec(shape).validate([{ kind: "Triangle" }, { kind: "Circle", radius: -1 }])
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.message).toBe(
+      '[0].kind: Expected one of "Square" | "Circle" | "Empty", received "Triangle"\n' +
+        "[1].radius: Expected u32 between 0 and 4294967295, received -1",
+    )
+  })
+
+  test("rejects variants that cannot hold a tag", () => {
+    expect(() => b.Enum({ A: b.u8() } as never, { tag: "kind" })).toThrow(TypeError)
+    expect(() => b.Enum({ A: b.Struct({ kind: b.u8() }) }, { tag: "kind" })).toThrow(
+      "Variant A has a field with the same name as the tag kind",
+    )
+  })
+})
+
+describe("enum helpers", () => {
+  const shape = b.Enum({
+    Square: b.u32(),
+    Circle: b.Struct({ radius: b.u32() }),
+    Empty: b.unit(),
+  })
+  type Shape = b.infer<typeof shape>
+
+  const area = (value: Shape) =>
+    shape.match(value, {
+      Square: (side) => side * side,
+      Circle: ({ radius }) => 3 * radius * radius,
+      Empty: () => 0,
+    })
+
+  test("variant constructors", () => {
+    const circle = shape.variants.Circle({ radius: 3 })
+    expectTypeOf(circle).toEqualTypeOf<{ Circle: { radius: number } }>()
+
+    expect(circle).toEqual({ Circle: { radius: 3 } })
+    expect(shape.variants.Square(2)).toEqual({ Square: 2 })
+    expect(shape.variants.Empty()).toEqual({ Empty: {} })
+    expect(shape.deserialize(shape.serialize(circle))).toEqual(circle)
+  })
+
+  test("match calls the handler for the variant", () => {
+    expect(area(shape.variants.Square(2))).toBe(4)
+    expect(area(shape.variants.Circle({ radius: 2 }))).toBe(12)
+    expect(area(shape.variants.Empty())).toBe(0)
+  })
+
+  test("match is exhaustive", () => {
+    // @ts-expect-error Empty is not handled
+    expectTypeOf(shape.match).toBeCallableWith(shape.variants.Empty(), {
+      Square: (side: number) => side,
+      Circle: () => 0,
+    })
+  })
+
+  test("variantOf", () => {
+    expect(shape.variantOf({ Circle: { radius: 1 } })).toBe("Circle")
+    expect(() => shape.variantOf({ Triangle: {} } as never)).toThrow(
+      "Unknown enum variant Triangle, expected one of Square, Circle, Empty",
+    )
+  })
+
+  test("tagged enums", () => {
+    const tagged = b.Enum({ Square: b.Struct({ side: b.u32() }), Empty: b.unit() }, { tag: "kind" })
+    const square = tagged.variants.Square({ side: 2 })
+    expectTypeOf(square).toEqualTypeOf<{ kind: "Square"; side: number }>()
+
+    expect(square).toEqual({ kind: "Square", side: 2 })
+    expect(tagged.variants.Empty()).toEqual({ kind: "Empty" })
+    expect(tagged.variantOf(square)).toBe("Square")
+    expect(
+      tagged.match(square, {
+        Square: (value) => value.side,
+        Empty: (value) => value.kind.length,
+      }),
+    ).toBe(2)
+  })
+})
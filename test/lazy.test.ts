@@ -0,0 +1,71 @@
+import { describe, expect, test } from "vitest"
+import { BorshDecodeError, type BorshSchema, b } from "../src"
+
+describe("lazy", () => {
+  type Expr = { Lit: bigint } | { Add: { left: Expr; right: Expr } }
+  const expr: BorshSchema<Expr> = b.Enum({
+    Lit: b.u64(),
+    Add: b.Struct({
+      left: b.lazy(() => expr),
+      right: b.lazy(() => expr),
+    }),
+  })
+
+  test("recursive enum roundtrip", () => {
+    const value: Expr = {
+      Add: {
+        left: { Lit: 1n },
+        right: { Add: { left: { Lit: 2n }, right: { Lit: 3n } } },
+      },
+    }
+
+    const buffer = expr.serialize(value)
+    expect(buffer).toEqual(
+      Buffer.from([
+        1, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 3, 0, 0, 0, 0, 0, 0, 0,
+      ]),
+    )
+    expect(expr.deserialize(buffer)).toEqual(value)
+    expect(expr.validate(value).success).toBe(true)
+  })
+
+  test("nested comment threads with typed arrays", () => {
+    type Comment = { text: string; attachment: Uint8Array; replies: Comment[] }
+    const comment: BorshSchema<Comment> = b.Struct({
+      text: b.string(),
+      attachment: b.Vec(b.u8()),
+      replies: b.Vec(b.lazy(() => comment)),
+    })
+
+    const value: Comment = {
+      text: "root",
+      attachment: Uint8Array.from([1, 2]),
+      replies: [{ text: "reply", attachment: Uint8Array.from([3]), replies: [] }],
+    }
+
+    const decoded = comment.deserialize(comment.serialize(value))
+    expect(decoded).toEqual(value)
+    expect(decoded.replies[0].attachment).toBeInstanceOf(Uint8Array)
+  })
+
+  test("rejects values nested deeper than maxDepth", () => {
+    type List = { value: number; next: List | null }
+    const list: BorshSchema<List> = b.Struct({
+      value: b.u8(),
+      next: b.Option(b.lazy(() => list, 3)),
+    })
+
+    let value: List = { value: 0, next: null }
+    for (let i = 1; i <= 3; i++) value = { value: i, next: value }
+    expect(list.deserialize(list.serialize(value))).toEqual(value)
+
+    const tooDeep = { value: 4, next: value }
+    expect(() => list.serialize(tooDeep)).toThrow(/Maximum recursion depth of 3 exceeded/)
+    expect(list.validate(tooDeep).success).toBe(false)
+
+    // A hostile buffer cannot force unbounded recursion either
+    const buffer = new Uint8Array(2 * 10_000).fill(1)
+    expect(() => list.deserialize(buffer)).toThrow(BorshDecodeError)
+    expect(() => list.deserialize(buffer)).toThrow(/Maximum recursion depth of 3 exceeded/)
+  })
+})
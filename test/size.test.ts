@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest"
+import { BigUint128Array, type BorshSchema, b } from "../src"
+
+const schema = b.Struct({
+  name: b.string(),
+  hash: b.Bytes(4),
+  scores: b.Vec(b.u16()),
+  balances: b.Vec(b.u128(), { packed: true }),
+  tags: b.HashSet(b.string()),
+  inventory: b.HashMap(b.string(), b.u64()),
+  owner: b.Option(b.Tuple(b.i8(), b.bool())),
+  status: b.Enum({ Idle: b.unit(), Moved: b.Struct({ x: b.f32(), y: b.f64() }) }),
+  flag: b.NativeEnum(["A", "B"]),
+  createdAt: b.u64().transform(
+    (value) => new Date(Number(value)),
+    (date) => BigInt(date.getTime()),
+  ),
+})
+type Value = b.infer<typeof schema>
+
+const value: Value = {
+  name: "héllo 👋 \ud800",
+  hash: new Uint8Array([1, 2, 3, 4]),
+  scores: new Uint16Array([1, 2, 3]),
+  balances: BigUint128Array.from([1n, 2n]),
+  tags: new Set(["a", "ß"]),
+  inventory: new Map([["sword", 1n]]),
+  owner: [-1, true],
+  status: { Moved: { x: 1, y: 2 } },
+  flag: "B",
+  createdAt: new Date(0),
+}
+
+describe("byteLength", () => {
+  test("matches the serialized length", () => {
+    expect(schema.byteLength(value)).toBe(schema.serialize(value).length)
+    const other: Value = { ...value, name: "", owner: null, status: { Idle: {} }, tags: new Set() }
+    expect(schema.byteLength(other)).toBe(schema.serialize(other).length)
+  })
+
+  test("tagged enums and recursive schemas", () => {
+    const shape = b.Enum({ Circle: b.Struct({ radius: b.u32() }), Dot: b.unit() }, { tag: "kind" })
+    expect(shape.byteLength({ kind: "Circle", radius: 3 })).toBe(5)
+
+    type List = { Nil: Record<string, never> } | { Cons: [number, List] }
+    const list: BorshSchema<List> = b.Enum({
+      Nil: b.unit(),
+      Cons: b.Tuple(
+        b.u32(),
+        b.lazy(() => list),
+      ),
+    })
+    expect(list.byteLength({ Cons: [1, { Cons: [2, { Nil: {} }] }] })).toBe(11)
+  })
+})
+
+describe("serializeInto", () => {
+  test("writes into an existing buffer and returns the next offset", () => {
+    const target = new Uint8Array(2 + schema.byteLength(value) + 3)
+    target.fill(0xff)
+
+    const end = schema.serializeInto(value, target, 2)
+    expect(end).toBe(target.length - 3)
+    expect(target.subarray(2, end)).toEqual(new Uint8Array(schema.serialize(value)))
+    expect([...target.subarray(0, 2), ...target.subarray(end)]).toEqual([
+      0xff, 0xff, 0xff, 0xff, 0xff,
+    ])
+  })
+
+  test("packs values back to back", () => {
+    const record = b.Struct({ id: b.u32(), name: b.string() })
+    const records = [
+      { id: 1, name: "alice" },
+      { id: 2, name: "bob" },
+    ]
+    const target = new Uint8Array(
+      records.reduce((length, item) => length + record.byteLength(item), 0),
+    )
+
+    let offset = 0
+    for (const item of records) offset = record.serializeInto(item, target, offset)
+
+    expect(offset).toBe(target.length)
+    expect(record.decodeFrom(target, 13).value).toEqual(records[1])
+  })
+
+  test("throws when the value doesn't fit", () => {
+    const target = new Uint8Array(8)
+
+    expect(() => b.string().serializeInto("hello", target, 0)).toThrow(
+      new RangeError("Buffer of 8 bytes is too small, needed 9 bytes at value"),
+    )
+    expect(() => b.u64().serializeInto(1n, target, 1)).toThrow(RangeError)
+    expect(() => b.u8().serializeInto(1, target, 9)).toThrow(RangeError)
+    expect(b.u64().serializeInto(1n, target, 0)).toBe(8)
+  })
+})
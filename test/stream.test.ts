@@ -0,0 +1,98 @@
+import { describe, expect, test } from "vitest"
+import { BorshDecodeError, b } from "../src"
+
+const schema = b.Struct({ id: b.u32(), name: b.string() })
+const records = [
+  { id: 1, name: "alice" },
+  { id: 2, name: "bob" },
+  { id: 3, name: "" },
+]
+
+async function* chunked(bytes: Uint8Array, size: number): AsyncIterable<Uint8Array> {
+  for (let i = 0; i < bytes.length; i += size) yield bytes.subarray(i, i + size)
+}
+
+async function collect<T>(values: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = []
+  for await (const value of values) result.push(value)
+  return result
+}
+
+function frame(bytes: Uint8Array): Buffer {
+  return Buffer.concat([b.u32().serialize(bytes.length), bytes])
+}
+
+describe("decodeStream", () => {
+  const bytes = Buffer.concat(records.map((record) => schema.serialize(record)))
+
+  test("decodes records split across any chunk boundaries", async () => {
+    for (const size of [1, 3, 7, bytes.length]) {
+      expect(await collect(schema.decodeStream(chunked(bytes, size)))).toEqual(records)
+    }
+  })
+
+  test("reads ReadableStreams", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 10))
+        controller.enqueue(bytes.subarray(10))
+        controller.close()
+      },
+    })
+
+    expect(await collect(schema.decodeStream(stream))).toEqual(records)
+  })
+
+  test("yields a record as soon as its bytes arrive", async () => {
+    let release = () => {}
+    const released = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    async function* source() {
+      yield bytes.subarray(0, 14)
+      await released
+      yield bytes.subarray(14)
+    }
+
+    const iterator = schema.decodeStream(source())
+    expect(await iterator.next()).toEqual({ done: false, value: records[0] })
+    release()
+    expect(await collect(iterator)).toEqual(records.slice(1))
+  })
+
+  test("length-prefixed framing", async () => {
+    const framed = Buffer.concat(records.map((record) => frame(schema.serialize(record))))
+
+    expect(
+      await collect(schema.decodeStream(chunked(framed, 5), { framing: "length-prefixed" })),
+    ).toEqual(records)
+
+    const padded = frame(Buffer.concat([schema.serialize(records[0]), Buffer.from([0])]))
+    await expect(
+      collect(schema.decodeStream(chunked(padded, 4), { framing: "length-prefixed" })),
+    ).rejects.toThrow("Unexpected 1 trailing bytes at byte 13 (expected end of buffer)")
+  })
+
+  test("reports a truncated last record", async () => {
+    const truncated = bytes.subarray(0, bytes.length - 2)
+
+    await expect(collect(schema.decodeStream(chunked(truncated, 4)))).rejects.toThrow(
+      "Unexpected end of buffer, needed 4 bytes but 2 left at byte 4 in name",
+    )
+    await expect(
+      collect(
+        schema.decodeStream(chunked(frame(bytes).subarray(0, 10), 4), {
+          framing: "length-prefixed",
+        }),
+      ),
+    ).rejects.toThrow(BorshDecodeError)
+  })
+
+  test("reports invalid records without waiting for more bytes", async () => {
+    const optional = b.Option(b.u8())
+
+    await expect(
+      collect(optional.decodeStream(chunked(new Uint8Array([1, 7, 2]), 1))),
+    ).rejects.toThrow("Invalid option tag 2 at byte 0")
+  })
+})
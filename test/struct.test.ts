@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, expectTypeOf, test, vi } from "vitest"
+import { BorshStructSchema, b } from "../src"
+
+const accountV1 = b.Struct({ id: b.string(), balance: b.u64() })
+
+describe("struct combinators", () => {
+  test("shape", () => {
+    expect(accountV1).toBeInstanceOf(BorshStructSchema)
+    expect(Object.keys(accountV1.shape)).toEqual(["id", "balance"])
+    expect(accountV1.shape.balance).toBe(b.u64())
+  })
+
+  test("extend adds fields at the end", () => {
+    const accountV2 = accountV1.extend({ frozen: b.bool() })
+    const value = { id: "alice", balance: 5n, frozen: true }
+
+    expect(Object.keys(accountV2.shape)).toEqual(["id", "balance", "frozen"])
+    expect(accountV2.serialize(value)).toEqual(
+      Buffer.concat([accountV1.serialize(value), Buffer.from([1])]),
+    )
+    expect(accountV2.deserialize(accountV2.serialize(value))).toEqual(value)
+  })
+
+  test("extend replaces fields in place", () => {
+    const schema = accountV1.extend({ id: b.u32() })
+
+    expect(Object.keys(schema.shape)).toEqual(["id", "balance"])
+    expect([...schema.serialize({ id: 1, balance: 0n })]).toEqual([1, 0, 0, 0, ...Array(8).fill(0)])
+  })
+
+  test("merge", () => {
+    const schema = accountV1.merge(b.Struct({ owner: b.Option(b.string()), id: b.u8() }))
+
+    expect(Object.keys(schema.shape)).toEqual(["id", "balance", "owner"])
+    expect(schema.deserialize(schema.serialize({ id: 7, balance: 1n, owner: null }))).toEqual({
+      id: 7,
+      balance: 1n,
+      owner: null,
+    })
+  })
+
+  test("pick and omit keep the declared order", () => {
+    const schema = b.Struct({ a: b.u8(), b: b.u16(), c: b.string(), d: b.bool() })
+
+    expect(Object.keys(schema.pick(["d", "a"]).shape)).toEqual(["a", "d"])
+    expect(Object.keys(schema.omit(["b"]).shape)).toEqual(["a", "c", "d"])
+    expect([...schema.pick(["d", "a"]).serialize({ a: 1, d: true })]).toEqual([1, 1])
+  })
+
+  test("partial wraps fields in Options", () => {
+    const patch = accountV1.partial()
+
+    expect([...patch.serialize({ id: null, balance: 3n })]).toEqual([0, 1, 3, 0, 0, 0, 0, 0, 0, 0])
+    expect(patch.deserialize(patch.serialize({ id: "bob", balance: null }))).toEqual({
+      id: "bob",
+      balance: null,
+    })
+  })
+
+  test("types", () => {
+    expectTypeOf(accountV1.extend({ frozen: b.bool() }).deserialize).returns.toEqualTypeOf<{
+      id: string
+      balance: bigint
+      frozen: boolean
+    }>()
+    expectTypeOf(accountV1.extend({ id: b.u8() }).deserialize).returns.toEqualTypeOf<{
+      id: number
+      balance: bigint
+    }>()
+    expectTypeOf(accountV1.pick(["id"]).deserialize).returns.toEqualTypeOf<{ id: string }>()
+    expectTypeOf(accountV1.omit(["id"]).deserialize).returns.toEqualTypeOf<{ balance: bigint }>()
+    expectTypeOf(accountV1.partial().deserialize).returns.toEqualTypeOf<{
+      id: string | null
+      balance: bigint | null
+    }>()
+    // @ts-expect-error unknown field
+    accountV1.pick(["name"])
+  })
+})
+
+describe("field order", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test("pairs keep integer-like fields in order", () => {
+    const schema = b.Struct([
+      ["b", b.u8()],
+      ["1", b.u16()],
+      ["0", b.u8()],
+    ])
+    const value = { b: 1, "1": 2, "0": 3 }
+
+    expect([...schema.serialize(value)]).toEqual([1, 2, 0, 3])
+    expect(schema.deserialize(Buffer.from([1, 2, 0, 3]))).toEqual(value)
+    expect(schema.describe()).toMatchObject({
+      fields: [{ name: "b" }, { name: "1" }, { name: "0" }],
+    })
+    expect(schema.toAbi().definitions.Root).toEqual({
+      Struct: {
+        fields: {
+          NamedFields: [
+            ["b", "u8"],
+            ["1", "u16"],
+            ["0", "u8"],
+          ],
+        },
+      },
+    })
+    expect(schema.view(Buffer.from([1, 2, 0, 3]))["0"]).toBe(3)
+    expect(schema.validate({ b: 1, "1": 70000, "0": 1 }).success).toBe(false)
+  })
+
+  test("combinators keep the order of pairs", () => {
+    const schema = b.Struct([
+      ["b", b.u8()],
+      ["0", b.u8()],
+    ])
+
+    expect([...schema.extend({ c: b.u8() }).serialize({ b: 1, "0": 2, c: 3 })]).toEqual([1, 2, 3])
+    expect([...schema.merge(schema.pick(["0"])).serialize({ b: 1, "0": 2 })]).toEqual([1, 2])
+    expect([...schema.partial().serialize({ b: 1, "0": null })]).toEqual([1, 1, 0])
+    expect([...b.Struct({ a: b.u8() }).merge(schema).serialize({ a: 0, b: 1, "0": 2 })]).toEqual([
+      0, 1, 2,
+    ])
+  })
+
+  test("duplicate fields", () => {
+    expect(() =>
+      b.Struct([
+        ["a", b.u8()],
+        ["a", b.u16()],
+      ]),
+    ).toThrow("Duplicate struct field a")
+  })
+
+  test("warns when an object may have reordered fields", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    b.Struct({ b: b.u8(), a: b.u8() })
+    b.Struct({ "0": b.u8() })
+    b.Struct({ 0: b.u8(), 1: b.u8() })
+    expect(warn).not.toHaveBeenCalled()
+
+    b.Struct({ b: b.u8(), "1": b.u8() })
+    expect(warn).toHaveBeenCalledOnce()
+    expect(warn.mock.calls[0][0]).toContain("Struct fields 1 are integer-like")
+
+    b.Struct([
+      ["b", b.u8()],
+      ["1", b.u8()],
+    ])
+    expect(warn).toHaveBeenCalledOnce()
+  })
+
+  test("no warning in production", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.stubEnv("NODE_ENV", "production")
+
+    b.Struct({ b: b.u8(), "1": b.u8() })
+    vi.unstubAllEnvs()
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  test("types", () => {
+    const schema = b.Struct([
+      ["b", b.u8()],
+      ["1", b.string()],
+    ])
+
+    expectTypeOf(schema.deserialize).returns.toEqualTypeOf<{ b: number; "1": string }>()
+    expectTypeOf(schema.shape.b).toEqualTypeOf<ReturnType<typeof b.u8>>()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, expectTypeOf, test } from "vitest"
+import { BorshDecodeError, BorshValidationError, b } from "../src"
+
+describe("refine", () => {
+  const even = b.u32().refine((n) => n % 2 === 0, "Expected an even number")
+
+  test("runs on serialize", () => {
+    expect(even.deserialize(even.serialize(4))).toBe(4)
+    expect(() => even.serialize(3)).toThrow(
+      new BorshValidationError([
+        { path: "", expected: "u32", received: 3, message: "Expected an even number" },
+      ]),
+    )
+  })
+
+  test("runs on deserialize", () => {
+    const buffer = b.u32().serialize(3)
+    expect(() => even.deserialize(buffer)).toThrow(BorshDecodeError)
+    expect(() => even.deserialize(buffer)).toThrow(/^Expected an even number at byte 0/)
+  })
+
+  test("runs during validation at the right path", () => {
+    const schema = b.Struct({ values: b.Vec(even) })
+    const result = schema.validate({ values: [2, 5] })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toEqual([
+      { path: "values[1]", expected: "u32", received: 5, message: "Expected an even number" },
+    ])
+  })
+})
+
+describe("transform", () => {
+  const timestamp = b.u64().transform(
+    (ms) => new Date(Number(ms)),
+    (date) => BigInt(date.getTime()),
+  )
+
+  test("infers the transformed type", () => {
+    expectTypeOf<b.infer<typeof timestamp>>().toEqualTypeOf<Date>()
+  })
+
+  test("maps values in both directions", () => {
+    const date = new Date("2024-01-01T00:00:00Z")
+    const buffer = timestamp.serialize(date)
+
+    expect(buffer).toEqual(b.u64().serialize(BigInt(date.getTime())))
+    expect(timestamp.deserialize(buffer)).toEqual(date)
+  })
+
+  test("applies at the right nesting level", () => {
+    const schema = b.Struct({
+      events: b.Vec(b.Struct({ name: b.string(), at: timestamp })),
+      lastSeen: b.Option(timestamp),
+    })
+    const value = {
+      events: [{ name: "login", at: new Date(1000) }],
+      lastSeen: new Date(2000),
+    }
+
+    expect(schema.deserialize(schema.serialize(value))).toEqual(value)
+    expect(schema.validate(value).success).toBe(true)
+  })
+
+  test("branded types", () => {
+    type AccountId = string & { readonly __brand: "AccountId" }
+    const accountId = b
+      .string()
+      .refine((s) => /^[a-z0-9._-]+$/.test(s), "Invalid account id")
+      .transform(
+        (s) => s as AccountId,
+        (id) => id,
+      )
+
+    expectTypeOf<b.infer<typeof accountId>>().toEqualTypeOf<AccountId>()
+    const id = accountId.deserialize(b.string().serialize("alice.near"))
+    expect(id).toBe("alice.near")
+    expect(() => accountId.deserialize(b.string().serialize("Alice!"))).toThrow(
+      /Invalid account id/,
+    )
+  })
+})
+
+describe("pipe", () => {
+  const small = b.u8().refine((n) => n < 10, "Expected less than 10")
+
+  test("validates the value against the target schema", () => {
+    const schema = b.u32().pipe(small)
+
+    expect(schema.serialize(5)).toEqual(b.u32().serialize(5))
+    expect(schema.deserialize(b.u32().serialize(5))).toBe(5)
+    expect(() => schema.serialize(300)).toThrow(BorshValidationError)
+    expect(() => schema.deserialize(b.u32().serialize(12))).toThrow(BorshDecodeError)
+  })
+})
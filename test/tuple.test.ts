@@ -0,0 +1,50 @@
+import { describe, expect, expectTypeOf, test } from "vitest"
+import { b } from "../src"
+
+describe("Tuple", () => {
+  test("type inference", () => {
+    const schema = b.Tuple(b.u32(), b.string())
+    expectTypeOf<b.infer<typeof schema>>().toEqualTypeOf<[number, string]>()
+  })
+
+  test("encodes elements in order without a length prefix", () => {
+    const schema = b.Tuple(b.u32(), b.string())
+    const buffer = schema.serialize([7, "hi"])
+
+    expect(buffer).toEqual(Buffer.from([7, 0, 0, 0, 2, 0, 0, 0, 104, 105]))
+    expect(schema.deserialize(buffer)).toEqual([7, "hi"])
+  })
+
+  test("matches the struct encoding of a tuple struct", () => {
+    // struct Pair(u8, u8)
+    const pair = b.Tuple(b.u8(), b.u8())
+    const struct = b.Struct({ 0: b.u8(), 1: b.u8() })
+
+    expect(pair.serialize([1, 2])).toEqual(struct.serialize({ 0: 1, 1: 2 }))
+  })
+
+  test("Vec elements inside tuples decode to typed arrays", () => {
+    const schema = b.Tuple(b.string(), b.Vec(b.f32()), b.Vec(b.Tuple(b.u8(), b.Vec(b.u8()))))
+    const value: b.infer<typeof schema> = [
+      "points",
+      Float32Array.from([1.5, 2.5]),
+      [[1, Uint8Array.from([9])]],
+    ]
+
+    const decoded = schema.deserialize(schema.serialize(value))
+    expect(decoded).toEqual(value)
+    expect(decoded[1]).toBeInstanceOf(Float32Array)
+    expect(decoded[2][0][1]).toBeInstanceOf(Uint8Array)
+  })
+
+  test("rejects tuples of the wrong length", () => {
+    const schema = b.Tuple(b.u8(), b.u8())
+
+    // @ts-expect-error - Testing runtime error for missing element
+    expect(() => schema.serialize([1])).toThrow(/Tuple length 1 does not match schema length 2/)
+    const result = schema.validate([1])
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues[0].expected).toBe("(u8, u8)")
+  })
+})
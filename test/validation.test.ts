@@ -0,0 +1,165 @@
+import { describe, expect, test } from "vitest"
+import { BorshValidationError, b } from "../src"
+
+describe("validate", () => {
+  test("valid values pass through unchanged", () => {
+    const schema = b.Struct({ name: b.string(), age: b.u8() })
+    const value = { name: "alice", age: 25 }
+
+    expect(schema.validate(value)).toEqual({ success: true, data: value })
+  })
+
+  test("missing struct fields", () => {
+    const schema = b.Struct({ name: b.string(), age: b.u8() })
+    const result = schema.validate({ name: "alice" })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error).toBeInstanceOf(BorshValidationError)
+    expect(result.error.issues).toEqual([
+      {
+        path: "age",
+        expected: "u8",
+        received: undefined,
+        message: "Expected integer, received undefined",
+      },
+    ])
+  })
+
+  test("integer bounds", () => {
+    const cases = [
+      { schema: b.u8(), valid: [0, 255], invalid: [-1, 256, 1.5] },
+      { schema: b.u16(), valid: [0, 65535], invalid: [-1, 65536] },
+      { schema: b.u32(), valid: [0, 4294967295], invalid: [-1, 4294967296] },
+      { schema: b.i8(), valid: [-128, 127], invalid: [-129, 128] },
+      { schema: b.i16(), valid: [-32768, 32767], invalid: [-32769, 32768] },
+      { schema: b.i32(), valid: [-2147483648, 2147483647], invalid: [-2147483649, 2147483648] },
+      { schema: b.u64(), valid: [0n, 2n ** 64n - 1n], invalid: [-1n, 2n ** 64n, 1] },
+      { schema: b.u128(), valid: [0n, 2n ** 128n - 1n], invalid: [-1n, 2n ** 128n] },
+      { schema: b.i64(), valid: [-(2n ** 63n), 2n ** 63n - 1n], invalid: [-(2n ** 63n) - 1n] },
+      { schema: b.i128(), valid: [-(2n ** 127n), 2n ** 127n - 1n], invalid: [2n ** 127n] },
+    ]
+
+    for (const { schema, valid, invalid } of cases) {
+      for (const value of valid) {
+        expect(schema.validate(value).success).toBe(true)
+      }
+      for (const value of invalid) {
+        expect(schema.validate(value).success).toBe(false)
+      }
+    }
+  })
+
+  test("reports nested paths", () => {
+    const schema = b.Struct({
+      players: b.Vec(
+        b.Struct({
+          id: b.string(),
+          inventory: b.HashMap(b.string(), b.u16()),
+        }),
+      ),
+      status: b.Enum({
+        Playing: b.unit(),
+        GameOver: b.Struct({ winner: b.string() }),
+      }),
+    })
+
+    const result = schema.validate({
+      players: [
+        { id: "player1", inventory: new Map([["sword", 1]]) },
+        { id: "player2", inventory: new Map([["sword", 70000]]) },
+      ],
+      status: { GameOver: { winner: 42 } },
+    })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues.map((issue) => issue.path)).toEqual([
+      'players[1].inventory.get("sword")',
+      "status.GameOver.winner",
+    ])
+    expect(result.error.message).toBe(
+      'players[1].inventory.get("sword"): Expected u16 between 0 and 65535, received 70000\n' +
+        "status.GameOver.winner: Expected string, received 42",
+    )
+  })
+
+  test("collections and enums", () => {
+    expect(b.Array(b.u8(), 2).validate([1, 2, 3]).success).toBe(false)
+    expect(b.Vec(b.u8()).validate(new Uint8Array(3)).success).toBe(true)
+    expect(b.Vec(b.u8()).validate([1, 2, 300]).success).toBe(false)
+    expect(b.HashSet(b.string()).validate(["a"]).success).toBe(false)
+    expect(b.Option(b.u8()).validate(null).success).toBe(true)
+    expect(b.Option(b.u8()).validate(-1).success).toBe(false)
+
+    const schema = b.Enum({ A: b.unit(), B: b.unit() })
+    const result = schema.validate({ C: {} })
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues[0]).toMatchObject({
+      path: "",
+      expected: "enum",
+      message: "Expected exactly one variant of enum (A | B), received { C }",
+    })
+  })
+})
+
+describe("safeSerialize", () => {
+  test("serializes valid values", () => {
+    const schema = b.Struct({ name: b.string(), age: b.u8() })
+    const value = { name: "alice", age: 25 }
+    const result = schema.safeSerialize(value)
+
+    expect(result).toEqual({ success: true, data: schema.serialize(value) })
+  })
+
+  test("rejects values that would be silently coerced", () => {
+    const result = b.u8().safeSerialize(300)
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toEqual([
+      {
+        path: "",
+        expected: "u8",
+        received: 300,
+        message: "Expected u8 between 0 and 255, received 300",
+      },
+    ])
+  })
+
+  test("rejects equal set elements and map keys", () => {
+    const set = b.HashSet(b.Struct({ id: b.u8() }))
+    const result = set.safeSerialize(new Set([{ id: 1 }, { id: 2 }, { id: 1 }]))
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error.issues).toEqual([
+      {
+        path: "",
+        expected: "HashSet<struct>",
+        received: { id: 1 },
+        message: "Duplicate element, received { id }",
+      },
+    ])
+
+    const map = b.Struct({ owners: b.HashMap(b.Bytes(2), b.string()) })
+    const owners = new Map([
+      [new Uint8Array([1, 2]), "alice"],
+      [new Uint8Array([1, 2]), "bob"],
+    ])
+    const mapResult = map.validate({ owners })
+    expect(mapResult.success).toBe(false)
+    if (mapResult.success) return
+    expect(mapResult.error.issues).toMatchObject([
+      {
+        path: "owners",
+        expected: "HashMap<[u8; 2], string>",
+        message: "Duplicate key, received Uint8Array(2 bytes)",
+      },
+    ])
+    expect(map.validate({ owners: new Map([[new Uint8Array([1, 2]), "alice"]]) }).success).toBe(
+      true,
+    )
+  })
+})
@@ -1,4 +1,5 @@
 import { assert, describe, expect, test } from "vitest"
+import { BigInt128Array, BigUint128Array } from "../src"
 import { BorshSchema } from "../src/schema"
 
 describe("Vec type serialization", () => {
@@ -123,6 +124,61 @@ describe("Vec type serialization", () => {
     })
   })
 
+  describe("BigUint64Array", () => {
+    const schema = BorshSchema.Vec(BorshSchema.u64)
+
+    test("type inference", () => {
+      // @ts-expect-error - Should not accept regular array
+      schema.serialize([1n, 2n, 3n])
+      // Should accept BigUint64Array
+      schema.serialize(new BigUint64Array([1n, 2n, 3n]))
+    })
+
+    test("serialization roundtrip", () => {
+      const arr = BigUint64Array.from([0n, 2n ** 63n, 2n ** 64n - 1n])
+      testRoundtrip(schema, arr)
+      expect(schema.deserialize(schema.serialize(arr))).toBeInstanceOf(BigUint64Array)
+    })
+  })
+
+  describe("Packed 128-bit arrays", () => {
+    test("regular Vec<u128> stays bigint[]", () => {
+      const schema = BorshSchema.Vec(BorshSchema.u128)
+      testRoundtrip(schema, [1n, 2n ** 100n])
+    })
+
+    test("BigUint128Array roundtrip", () => {
+      const schema = BorshSchema.Vec(BorshSchema.u128, { packed: true })
+      const balances = BigUint128Array.from([0n, 10n ** 24n, 2n ** 128n - 1n])
+
+      const serialized = schema.serialize(balances)
+      // Same wire format as the unpacked Vec
+      expect(serialized).toEqual(BorshSchema.Vec(BorshSchema.u128).serialize(balances.toArray()))
+
+      const deserialized = schema.deserialize(serialized)
+      expect(deserialized).toBeInstanceOf(BigUint128Array)
+      expect(deserialized.length).toBe(3)
+      expect(deserialized.get(1)).toBe(10n ** 24n)
+      expect(deserialized.get(2)).toBe(2n ** 128n - 1n)
+      expect([...deserialized]).toEqual(balances.toArray())
+    })
+
+    test("BigInt128Array roundtrip", () => {
+      const schema = BorshSchema.Vec(BorshSchema.i128, { packed: true })
+      const values = BigInt128Array.from([-1n, -(2n ** 127n), 2n ** 127n - 1n])
+
+      const deserialized = schema.deserialize(schema.serialize(values))
+      expect(deserialized.toArray()).toEqual([-1n, -(2n ** 127n), 2n ** 127n - 1n])
+    })
+
+    test("set and bounds", () => {
+      const values = new BigUint128Array(2)
+      values.set(1, 42n)
+      expect(values.toArray()).toEqual([0n, 42n])
+      expect(() => values.get(2)).toThrow(RangeError)
+    })
+  })
+
   describe("Regular arrays", () => {
     const schema = BorshSchema.Vec(BorshSchema.String)
     const values = ["hello", "world"]
@@ -381,6 +437,57 @@ describe("Vec type serialization", () => {
   })
 })
 
+describe("Fixed-size array serialization", () => {
+  test("Bytes decodes to Uint8Array", () => {
+    const schema = BorshSchema.Bytes(32)
+    const hash = new Uint8Array(32).fill(7)
+
+    const serialized = schema.serialize(hash)
+    // Fixed-size arrays have no length prefix
+    expect(serialized.length).toBe(32)
+
+    const deserialized = schema.deserialize(serialized)
+    expect(deserialized).toBeInstanceOf(Uint8Array)
+    expect(deserialized).toEqual(hash)
+  })
+
+  test("type inference", () => {
+    const schema = BorshSchema.Array(BorshSchema.u8, 3)
+    // @ts-expect-error - Should not accept regular array
+    schema.serialize([1, 2, 3])
+    // Should accept Uint8Array
+    schema.serialize(new Uint8Array([1, 2, 3]))
+  })
+
+  test("numeric arrays decode to typed arrays", () => {
+    const schema = BorshSchema.Struct({
+      position: BorshSchema.Array(BorshSchema.f32, 3),
+      ids: BorshSchema.Array(BorshSchema.i64, 2),
+      names: BorshSchema.Array(BorshSchema.String, 2),
+    })
+    const value = {
+      position: Float32Array.from([1, 2, 3]),
+      ids: BigInt64Array.from([-1n, 1n]),
+      names: ["a", "b"],
+    }
+
+    const deserialized = schema.deserialize(schema.serialize(value))
+    expect(deserialized).toEqual(value)
+    expect(deserialized.position).toBeInstanceOf(Float32Array)
+    expect(deserialized.ids).toBeInstanceOf(BigInt64Array)
+  })
+
+  test("length is checked on encode", () => {
+    const schema = BorshSchema.Bytes(32)
+
+    expect(() => schema.serialize(new Uint8Array(31))).toThrow(
+      "Array length 31 does not match schema length 32",
+    )
+    expect(schema.validate(new Uint8Array(31)).success).toBe(false)
+    expect(schema.validate(new Uint8Array(32)).success).toBe(true)
+  })
+})
+
 // Helper type for TypeScript
 type TypedArray =
   | Uint8Array
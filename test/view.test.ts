@@ -0,0 +1,140 @@
+import { describe, expect, expectTypeOf, test } from "vitest"
+import {
+  BigUint128Array,
+  BorshDecodeError,
+  type BorshSchema,
+  type BorshView,
+  MapView,
+  VecView,
+  b,
+} from "../src"
+
+const player = b.Struct({ id: b.string(), score: b.u32() })
+const schema = b.Struct({
+  version: b.u8(),
+  name: b.string(),
+  players: b.Vec(player),
+  scores: b.Vec(b.u32()),
+  balances: b.Vec(b.u128(), { packed: true }),
+  inventory: b.HashMap(b.string(), b.Tuple(b.u16(), b.Option(b.string()))),
+  tags: b.HashSet(b.string()),
+  status: b.Enum({ Idle: b.unit(), Won: b.Struct({ by: b.string() }) }),
+  shape: b.Enum({ Dot: b.unit(), Circle: b.Struct({ radius: b.u8() }) }, { tag: "kind" }),
+  owner: b.Option(player),
+})
+type State = b.infer<typeof schema>
+
+const state: State = {
+  version: 1,
+  name: "game",
+  players: [
+    { id: "alice", score: 10 },
+    { id: "bob", score: 20 },
+  ],
+  scores: new Uint32Array([1, 2, 3]),
+  balances: BigUint128Array.from([1n, 2n ** 100n]),
+  inventory: new Map<string, [number, string | null]>([
+    ["sword", [1, "sharp"]],
+    ["shield", [2, null]],
+  ]),
+  tags: new Set(["a", "b"]),
+  status: { Won: { by: "alice" } },
+  shape: { kind: "Circle", radius: 3 },
+  owner: null,
+}
+
+describe("view", () => {
+  test("reads every kind of value", () => {
+    const view = schema.view(schema.serialize(state))
+
+    expect(view.version).toBe(1)
+    expect(view.name).toBe("game")
+    expect(view.players).toBeInstanceOf(VecView)
+    expect(view.players.length).toBe(2)
+    expect(view.players.get(1)?.id).toBe("bob")
+    expect(view.players.get(2)).toBeUndefined()
+    expect([...view.players].map((item) => item.score)).toEqual([10, 20])
+    expect(view.scores).toEqual(new Uint32Array([1, 2, 3]))
+    expect([...view.balances]).toEqual([1n, 2n ** 100n])
+    expect(view.inventory).toBeInstanceOf(MapView)
+    expect(view.inventory.size).toBe(2)
+    expect(view.inventory.get("shield")).toEqual([2, null])
+    expect(view.inventory.has("bow")).toBe(false)
+    expect([...view.inventory.keys()]).toEqual(["shield", "sword"])
+    expect(view.tags).toEqual(new Set(["a", "b"]))
+    expect(view.status).toEqual({ Won: { by: "alice" } })
+    expect(view.shape).toEqual({ kind: "Circle", radius: 3 })
+    expect(view.owner).toBeNull()
+  })
+
+  test("decodes fields only when they are read", () => {
+    const buffer = schema.serialize(state)
+    // Corrupt the option tag of the last field
+    buffer[buffer.length - 1] = 7
+    const view = schema.view(buffer)
+
+    expect(view.players.get(0)?.id).toBe("alice")
+    expect(view.shape).toEqual({ kind: "Circle", radius: 3 })
+    expect(() => view.owner).toThrow(BorshDecodeError)
+    expect(() => view.owner).toThrow(`Invalid option tag 7 at byte ${buffer.length - 1} in owner`)
+  })
+
+  test("typed arrays share the buffer's memory when aligned", () => {
+    const vec = b.Struct({ values: b.Vec(b.u32()) })
+    const buffer = new Uint8Array(vec.serialize({ values: new Uint32Array([1, 2]) }))
+
+    const { values } = vec.view(buffer)
+    buffer[4] = 9
+    expect(values[0]).toBe(9)
+
+    // Shifted by one byte, the elements can't be viewed in place and are copied
+    const shifted = new Uint8Array(buffer.length + 1)
+    shifted.set(buffer, 1)
+    const copy = vec.view(shifted.subarray(1)).values
+    shifted[5] = 1
+    expect(copy[0]).toBe(9)
+  })
+
+  test("recursive schemas", () => {
+    type List = { Nil: Record<string, never> } | { Cons: [string, List] }
+    const list: BorshSchema<List> = b.Enum({
+      Nil: b.unit(),
+      Cons: b.Tuple(
+        b.string(),
+        b.lazy(() => list),
+      ),
+    })
+    const view = list.view(list.serialize({ Cons: ["a", { Cons: ["b", { Nil: {} }] }] }))
+
+    expect("Cons" in view && view.Cons[0]).toBe("a")
+    expect(view).toEqual({ Cons: ["a", { Cons: ["b", { Nil: {} }] }] })
+  })
+
+  test("reports truncated buffers", () => {
+    const buffer = schema.serialize(state)
+    const view = schema.view(buffer.subarray(0, 20))
+
+    expect(view.name).toBe("game")
+    expect(() => view.players.get(1)).toThrow(
+      "Unexpected end of buffer, needed 5 bytes but 3 left at byte 17 in players[0]",
+    )
+    expect(() => b.Vec(b.u64()).view(new Uint8Array([2, 0, 0, 0]))).toThrow(BorshDecodeError)
+  })
+
+  test("types", () => {
+    expectTypeOf(schema.view(schema.serialize(state))).toEqualTypeOf<BorshView<State>>()
+
+    type View = BorshView<State>
+    expectTypeOf<View["version"]>().toEqualTypeOf<number>()
+    expectTypeOf<View["players"]>().toEqualTypeOf<
+      VecView<{ readonly id: string; readonly score: number }>
+    >()
+    expectTypeOf<View["scores"]>().toEqualTypeOf<Uint32Array>()
+    expectTypeOf<View["inventory"]>().toEqualTypeOf<
+      MapView<string, readonly [number, string | null]>
+    >()
+    expectTypeOf<View["shape"]>().toEqualTypeOf<
+      { readonly kind: "Dot" } | { readonly kind: "Circle"; readonly radius: number }
+    >()
+  })
+})